@@ -0,0 +1,121 @@
+/**
+ * Copies the typings twoslash needs into public/twoslash-types/, so CodeTransition can
+ * show `^?` callouts and type errors for TS/TSX steps without reaching the CDN.
+ *
+ * Writes TypeScript's lib .d.ts files and the .d.ts files + package.json of each listed
+ * package from node_modules, plus an index.json the local twoslash backend
+ * (src/code-utils/twoslash.ts) serves them from. Packages a snippet imports that are
+ * not cached get no types unless REMOTION_TWOSLASH_CDN=1 allows fetching them.
+ *
+ * Run it again after upgrading TypeScript or the cached packages.
+ *
+ * Usage:
+ *   npx tsx scripts/cache-twoslash-types.ts
+ *   npx tsx scripts/cache-twoslash-types.ts react @types/react remotion zod
+ *   npx tsx scripts/cache-twoslash-types.ts --out public/twoslash-types
+ */
+
+import fs from 'fs';
+import path from 'path';
+import ts from 'typescript';
+
+// react ships no typings of its own; twoslash looks up @types/react for it
+const DEFAULT_PACKAGES = ['react', '@types/react', 'csstype', 'remotion'];
+
+const DTS_FILE = /\.d\.([^.]+\.)?[cm]?ts$/i;
+
+type TypesIndex = {
+    typescript: string;
+    packages: Record<string, { version: string; files: string[] }>;
+};
+
+function parseArgs() {
+    const args = process.argv.slice(2);
+    let outDir = path.resolve(__dirname, '../public/twoslash-types');
+    const packages: string[] = [];
+
+    for (let i = 0; i < args.length; i++) {
+        if (args[i] === '--out' && args[i + 1]) {
+            outDir = path.resolve(args[i + 1]);
+            i++;
+        } else if (!args[i].startsWith('--')) {
+            packages.push(args[i]);
+        }
+    }
+
+    return { outDir, packages: packages.length > 0 ? packages : DEFAULT_PACKAGES };
+}
+
+// Typings below dir as /-rooted paths ("/dist/index.d.ts"), skipping nested node_modules
+function findTypings(dir: string, relative = ''): string[] {
+    const files: string[] = [];
+    for (const entry of fs.readdirSync(path.join(dir, relative), { withFileTypes: true })) {
+        const entryPath = `${relative}/${entry.name}`;
+        if (entry.isDirectory()) {
+            if (entry.name !== 'node_modules') files.push(...findTypings(dir, entryPath));
+        } else if (DTS_FILE.test(entry.name)) {
+            files.push(entryPath);
+        }
+    }
+    return files;
+}
+
+// node_modules/<name> seen from any of the given directories or their parents. With pnpm a
+// dependency of a dependency (csstype for @types/react) only sits next to the package using it.
+function findPackageDir(name: string, searchFrom: string[]): string | null {
+    for (const start of searchFrom) {
+        for (let dir = start; ; dir = path.dirname(dir)) {
+            const candidate = path.join(dir, 'node_modules', name);
+            if (fs.existsSync(path.join(candidate, 'package.json'))) return fs.realpathSync(candidate);
+            if (path.dirname(dir) === dir) break;
+        }
+    }
+    return null;
+}
+
+function copyFile(from: string, to: string) {
+    fs.mkdirSync(path.dirname(to), { recursive: true });
+    fs.copyFileSync(from, to);
+}
+
+function main() {
+    const { outDir, packages } = parseArgs();
+    const searchFrom = [path.resolve(__dirname, '..')];
+
+    fs.rmSync(outDir, { recursive: true, force: true });
+
+    const libDir = path.dirname(require.resolve('typescript/lib/lib.d.ts'));
+    const libFiles = fs.readdirSync(libDir).filter((file) => /^lib\..*\.d\.ts$/.test(file) || file === 'lib.d.ts');
+    for (const file of libFiles) {
+        copyFile(path.join(libDir, file), path.join(outDir, 'typescript/lib', file));
+    }
+    console.log(`✓ TypeScript ${ts.version}: ${libFiles.length} lib files`);
+
+    const index: TypesIndex = { typescript: ts.version, packages: {} };
+    let failed = false;
+    for (const name of packages) {
+        const packageDir = findPackageDir(name, searchFrom);
+        if (!packageDir) {
+            console.error(`✗ ${name} is not installed in node_modules`);
+            failed = true;
+            continue;
+        }
+        searchFrom.push(packageDir);
+
+        const packageJsonPath = path.join(packageDir, 'package.json');
+        const { version } = JSON.parse(fs.readFileSync(packageJsonPath, 'utf-8')) as { version: string };
+        const files = findTypings(packageDir);
+        copyFile(packageJsonPath, path.join(outDir, 'npm', name, 'package.json'));
+        for (const file of files) {
+            copyFile(path.join(packageDir, file), path.join(outDir, 'npm', name, file));
+        }
+        index.packages[name] = { version, files };
+        console.log(`✓ ${name}@${version}: ${files.length} typing file(s)`);
+    }
+
+    fs.writeFileSync(path.join(outDir, 'index.json'), JSON.stringify(index, null, 2));
+    console.log(`\nDone! Wrote twoslash typings to ${outDir}`);
+    if (failed) process.exit(1);
+}
+
+main();
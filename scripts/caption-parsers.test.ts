@@ -0,0 +1,110 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { parseCaptionFile } from './caption-parsers';
+
+const texts = (captions: { text: string }[]) => captions.map((caption) => caption.text);
+
+describe('srt', () => {
+    it('splits each cue into words timed by their length, multi-line cues included', () => {
+        const { format, captions } = parseCaptionFile('talk.srt', [
+            '1',
+            '00:00:01,000 --> 00:00:02,000',
+            'Hi all',
+            '',
+            '2',
+            '00:00:03,000 --> 00:00:05,000',
+            'two',
+            'lines',
+            '',
+        ].join('\n'));
+
+        assert.equal(format, 'srt');
+        assert.deepEqual(texts(captions), [' Hi', ' all', ' two', ' lines']);
+        assert.deepEqual(captions.map((caption) => [caption.startMs, caption.endMs]), [
+            [1000, 1400], [1400, 2000], [3000, 3750], [3750, 5000],
+        ]);
+    });
+
+    it('is detected from the content without a .srt name', () => {
+        const { format } = parseCaptionFile('subs.txt', '1\r\n00:00:00,000 --> 00:00:01,000\r\nHello\r\n');
+
+        assert.equal(format, 'srt');
+    });
+});
+
+describe('vtt', () => {
+    it('reads timestamps without hours, cue settings, tags and voice spans', () => {
+        const { format, captions } = parseCaptionFile('talk.vtt', [
+            'WEBVTT',
+            '',
+            '00:01.000 --> 00:02.500 align:start',
+            '<v Alice>Hello <i>there</i></v>',
+            '',
+            'NOTE no timing here',
+            '',
+            '01:00:00.000 --> 01:00:01.000',
+            'Bye',
+        ].join('\n'));
+
+        assert.equal(format, 'vtt');
+        assert.deepEqual(texts(captions), [' Hello', ' there', ' Bye']);
+        assert.equal(captions[0].startMs, 1000);
+        assert.equal(captions[1].endMs, 2500);
+        assert.equal(captions[0].speaker, 'Alice');
+        assert.equal(captions[2].startMs, 3600000);
+        assert.equal(captions[2].speaker, undefined);
+    });
+});
+
+describe('whisper', () => {
+    it('reads openai-whisper segments with their speaker and probability', () => {
+        const json = {
+            segments: [{
+                speaker: 'SPEAKER_00',
+                words: [
+                    { word: ' Hello', start: 0, end: 0.5, probability: 0.9 },
+                    { word: ' world', start: 0.5, end: 1, probability: 0.4, speaker: 'SPEAKER_01' },
+                ],
+            }],
+        };
+        const { format, captions } = parseCaptionFile('out.json', JSON.stringify(json));
+
+        assert.equal(format, 'whisper');
+        assert.deepEqual(captions, [
+            { text: ' Hello', startMs: 0, endMs: 500, timestampMs: 250, confidence: 0.9, speaker: 'SPEAKER_00' },
+            { text: ' world', startMs: 500, endMs: 1000, timestampMs: 750, confidence: 0.4, speaker: 'SPEAKER_01' },
+        ]);
+    });
+
+    it('merges whisper.cpp word pieces and skips special tokens', () => {
+        const token = (text: string, from: number, to: number, p = 1) => ({ text, offsets: { from, to }, p });
+        const json = {
+            transcription: [{
+                tokens: [token('[_BEG_]', 0, 0), token(' Re', 0, 200, 0.8), token('motion', 200, 500, 0.6), token(' rocks', 500, 900)],
+            }],
+        };
+        const { captions } = parseCaptionFile('out.json', JSON.stringify(json));
+
+        assert.deepEqual(texts(captions), [' Remotion', ' rocks']);
+        assert.deepEqual([captions[0].startMs, captions[0].endMs, captions[0].confidence], [0, 500, 0.6]);
+    });
+});
+
+describe('flat', () => {
+    it('turns trailing-space words into leading-space ones', () => {
+        const { format, captions } = parseCaptionFile('wordlevel-timestamp.json', JSON.stringify([
+            { word: 'I ', start: 0, end: 0.2 },
+            { word: 'made ', start: 0.2, end: 0.5 },
+        ]));
+
+        assert.equal(format, 'flat');
+        assert.deepEqual(texts(captions), [' I', ' made']);
+    });
+});
+
+describe('parseCaptionFile', () => {
+    it('rejects unknown formats and content it cannot detect', () => {
+        assert.throws(() => parseCaptionFile('a.json', '[]', 'nope'), /Unknown format "nope"/);
+        assert.throws(() => parseCaptionFile('a.txt', 'just text'), /Could not detect the format/);
+    });
+});
@@ -0,0 +1,243 @@
+/**
+ * Parsers that turn ASR output into @remotion/captions Caption[].
+ *
+ * Each parser can recognise its own input (detect) and normalise it (parse), so
+ * adding a format means adding one entry to captionParsers. Word texts start with a
+ * space, the @remotion/captions convention for a word boundary (" world"), so captions
+ * can be joined as-is.
+ * Diarized output also gives each word a `speaker` id.
+ */
+
+import path from 'path';
+import type { SpeakerCaption } from '../src/compositionManifest';
+
+export type CaptionParser = {
+    name: string;
+    description: string;
+    // content is the raw file; json is its parsed value, or undefined if it isn't JSON
+    detect: (input: { content: string; json: unknown; filename?: string }) => boolean;
+    parse: (input: { content: string; json: unknown }) => SpeakerCaption[];
+};
+
+type Word = {
+    text: string;
+    start: number; // seconds
+    end: number;   // seconds
+    confidence?: number | null;
+    speaker?: string | number | null; // diarization label, e.g. 0 (Deepgram), "A" (AssemblyAI), "SPEAKER_00" (WhisperX)
+};
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function toCaption(word: Word): SpeakerCaption {
+    return {
+        text: ` ${word.text.trim()}`,
+        startMs: Math.round(word.start * 1000),
+        endMs: Math.round(word.end * 1000),
+        timestampMs: Math.round(((word.start + word.end) / 2) * 1000),
+        confidence: word.confidence ?? null,
+        ...(word.speaker !== undefined && word.speaker !== null ? { speaker: String(word.speaker) } : {}),
+    };
+}
+
+// --- Flat [{ word, start, end }] list (wordlevel-timestamp.json) ---
+const flatParser: CaptionParser = {
+    name: 'flat',
+    description: 'Flat [{ word, start, end }] array in seconds (wordlevel-timestamp.json)',
+    detect: ({ json }) => Array.isArray(json) && isRecord(json[0]) && 'word' in json[0] && 'start' in json[0],
+    parse: ({ json }) => (json as { word: string; start: number; end: number; confidence?: number; speaker?: string }[])
+        .map((w) => toCaption({ text: w.word, start: w.start, end: w.end, confidence: w.confidence, speaker: w.speaker })),
+};
+
+// --- whisper.cpp --output-json-full, or openai-whisper's segments[].words (WhisperX adds speaker labels) ---
+type WhisperCppToken = { text: string; offsets: { from: number; to: number }; p?: number };
+
+// whisper.cpp tokens are word pieces; a piece starting with a space begins a new word
+function mergeWhisperCppTokens(tokens: WhisperCppToken[]): Word[] {
+    const words: Word[] = [];
+    for (const token of tokens) {
+        // Special tokens such as [_BEG_] or [_TT_123]
+        if (/^\[_.*\]$/.test(token.text.trim()) || token.text === '') continue;
+
+        const previous = words[words.length - 1];
+        if (previous && !token.text.startsWith(' ')) {
+            previous.text += token.text;
+            previous.end = token.offsets.to / 1000;
+            previous.confidence = Math.min(previous.confidence ?? 1, token.p ?? 1);
+        } else {
+            words.push({
+                text: token.text.trimStart(),
+                start: token.offsets.from / 1000,
+                end: token.offsets.to / 1000,
+                confidence: token.p ?? null,
+            });
+        }
+    }
+    return words;
+}
+
+const whisperParser: CaptionParser = {
+    name: 'whisper',
+    description: 'whisper.cpp JSON (transcription[].tokens) or openai-whisper JSON (segments[].words)',
+    detect: ({ json }) => isRecord(json) && (
+        Array.isArray(json.transcription)
+        || (Array.isArray(json.segments) && !('task' in json) && isRecord(json.segments[0]) && Array.isArray(json.segments[0].words))
+    ),
+    parse: ({ json }) => {
+        const data = json as {
+            transcription?: { tokens?: WhisperCppToken[] }[];
+            segments?: {
+                speaker?: string;
+                words?: { word: string; start: number; end: number; probability?: number; score?: number; speaker?: string }[];
+            }[];
+        };
+        if (data.transcription) {
+            return mergeWhisperCppTokens(data.transcription.flatMap((segment) => segment.tokens ?? [])).map((word) => toCaption(word));
+        }
+        return (data.segments ?? [])
+            .flatMap((segment) => (segment.words ?? []).map((w) => toCaption({
+                text: w.word,
+                start: w.start,
+                end: w.end,
+                confidence: w.probability ?? w.score,
+                speaker: w.speaker ?? segment.speaker,
+            })));
+    },
+};
+
+// --- OpenAI transcriptions API, response_format=verbose_json with word timestamps ---
+const openAiVerboseParser: CaptionParser = {
+    name: 'openai',
+    description: 'OpenAI verbose_json with timestamp_granularities=["word"] (words[] in seconds)',
+    detect: ({ json }) => isRecord(json) && Array.isArray(json.words) && isRecord(json.words[0]) && 'word' in json.words[0],
+    parse: ({ json }) => ((json as { words: { word: string; start: number; end: number }[] }).words)
+        .map((w) => toCaption({ text: w.word, start: w.start, end: w.end })),
+};
+
+// --- Deepgram pre-recorded response (words carry a speaker number with diarize=true) ---
+const deepgramParser: CaptionParser = {
+    name: 'deepgram',
+    description: 'Deepgram JSON (results.channels[0].alternatives[0].words)',
+    detect: ({ json }) => isRecord(json) && isRecord(json.results) && Array.isArray(json.results.channels),
+    parse: ({ json }) => {
+        const data = json as {
+            results: { channels: { alternatives: { words: { word: string; punctuated_word?: string; start: number; end: number; confidence?: number; speaker?: number }[] }[] }[] };
+        };
+        const words = data.results.channels[0]?.alternatives[0]?.words ?? [];
+        return words.map((w) => toCaption({
+            text: w.punctuated_word ?? w.word,
+            start: w.start,
+            end: w.end,
+            confidence: w.confidence,
+            speaker: w.speaker,
+        }));
+    },
+};
+
+// --- AssemblyAI transcript (words[] in milliseconds; speaker "A", "B"... with speaker_labels) ---
+const assemblyAiParser: CaptionParser = {
+    name: 'assemblyai',
+    description: 'AssemblyAI transcript JSON (words[] with text/start/end in milliseconds)',
+    detect: ({ json }) => isRecord(json) && Array.isArray(json.words) && isRecord(json.words[0]) && 'text' in json.words[0],
+    parse: ({ json }) => ((json as { words: { text: string; start: number; end: number; confidence?: number; speaker?: string | null }[] }).words)
+        .map((w) => toCaption({ text: w.text, start: w.start / 1000, end: w.end / 1000, confidence: w.confidence, speaker: w.speaker })),
+};
+
+// --- SRT / WebVTT: cue-level only, so each cue's time is shared across its words by length ---
+type Cue = { start: number; end: number; text: string; speaker?: string };
+
+function parseTimestamp(value: string): number {
+    const parts = value.trim().replace(',', '.').split(':').map(Number);
+    return parts.reduce((acc, part) => acc * 60 + part, 0);
+}
+
+function parseCues(content: string): Cue[] {
+    const cues: Cue[] = [];
+    for (const block of content.replace(/\r/g, '').split(/\n{2,}/)) {
+        const lines = block.split('\n');
+        const timingIndex = lines.findIndex((line) => line.includes('-->'));
+        if (timingIndex === -1) continue;
+
+        const [from, to] = lines[timingIndex].split('-->');
+        const body = lines.slice(timingIndex + 1).join(' ');
+        // WebVTT voice spans name the speaker: <v Alice>Hello</v>
+        const voice = /<v(?:\.[^\s>]*)?\s+([^>]+)>/.exec(body);
+        const text = body
+            .replace(/<[^>]+>/g, '') // inline tags such as <i> or <c.yellow>
+            .trim();
+        if (!text) continue;
+
+        // WebVTT cue settings follow the end time, e.g. "00:01.000 align:start"
+        cues.push({ start: parseTimestamp(from), end: parseTimestamp(to.trim().split(/\s+/)[0]), text, speaker: voice?.[1].trim() });
+    }
+    return cues;
+}
+
+function splitCueIntoWords(cue: Cue): Word[] {
+    const texts = cue.text.split(/\s+/).filter(Boolean);
+    const totalLength = texts.reduce((acc, text) => acc + text.length, 0);
+    const duration = cue.end - cue.start;
+
+    let start = cue.start;
+    return texts.map((text) => {
+        const end = start + (duration * text.length) / totalLength;
+        const word = { text, start, end, confidence: null, speaker: cue.speaker };
+        start = end;
+        return word;
+    });
+}
+
+const srtParser: CaptionParser = {
+    name: 'srt',
+    description: 'SubRip subtitles; word times are estimated within each cue',
+    detect: ({ content, filename }) => filename?.toLowerCase().endsWith('.srt')
+        || /^\s*\d+\s*\r?\n\d{2}:\d{2}:\d{2},\d{3}\s*-->/.test(content),
+    parse: ({ content }) => parseCues(content).flatMap(splitCueIntoWords).map((word) => toCaption(word)),
+};
+
+const vttParser: CaptionParser = {
+    name: 'vtt',
+    description: 'WebVTT subtitles; word times are estimated within each cue, <v> voice spans give the speaker',
+    detect: ({ content, filename }) => filename?.toLowerCase().endsWith('.vtt') || content.trimStart().startsWith('WEBVTT'),
+    parse: ({ content }) => parseCues(content).flatMap(splitCueIntoWords).map((word) => toCaption(word)),
+};
+
+// Checked in order during auto-detection
+export const captionParsers: CaptionParser[] = [
+    flatParser,
+    whisperParser,
+    openAiVerboseParser,
+    deepgramParser,
+    assemblyAiParser,
+    vttParser,
+    srtParser,
+];
+
+export function getCaptionParser(name: string): CaptionParser | undefined {
+    return captionParsers.find((parser) => parser.name === name);
+}
+
+// Parse an ASR file into Caption[], using the named format or the first parser that recognises it
+export function parseCaptionFile(filePath: string, content: string, format?: string): { format: string; captions: SpeakerCaption[] } {
+    let json: unknown;
+    try {
+        json = JSON.parse(content);
+    } catch {
+        json = undefined;
+    }
+
+    const parser = format
+        ? getCaptionParser(format)
+        : captionParsers.find((candidate) => candidate.detect({ content, json, filename: path.basename(filePath) }));
+
+    if (!parser) {
+        const names = captionParsers.map((candidate) => candidate.name).join(', ');
+        throw new Error(format
+            ? `Unknown format "${format}". Available formats: ${names}`
+            : `Could not detect the format of ${filePath}. Pass --format with one of: ${names}`);
+    }
+
+    return { format: parser.name, captions: parser.parse({ content, json }) };
+}
@@ -1,31 +1,45 @@
 /**
- * Preprocesses transcript.json to populate Captions0 shots with word-level timestamps.
+ * Preprocesses transcript.json to populate caption shots with word-level timestamps.
  *
- * Reads transcript.json + wordlevel-timestamp.json from public/,
- * finds shots with compositionId "Captions0", slices the relevant word-level
- * captions based on start_time/end_time, and writes them into compositionProps.captions.
+ * Reads transcript.json + wordlevel-timestamp.json from public/, finds shots whose
+ * composition declares a `captions` array in its registry schema (e.g. Captions0),
+ * slices the words spoken between start_time and end_time, and writes them into
+ * compositionProps.captions. Caption times are relative to the shot's start, since
+ * the shot's composition starts counting from 0 when the shot begins.
+ *
+ * The result goes to <transcript>.captioned.json (or --out) unless --in-place is
+ * given. --check only reports caption shots with missing or overlapping words and
+ * exits with 1 when it finds any.
+ *
+ * The word list can also be whisper.cpp / openai-whisper JSON, OpenAI verbose_json,
+ * Deepgram or AssemblyAI JSON, SRT or WebVTT (see caption-parsers.ts). The format is
+ * detected from the file unless --format is given. Speaker labels from diarized output
+ * (Deepgram diarize, AssemblyAI speaker_labels, WhisperX, WebVTT <v> spans) are kept
+ * on each word as `speaker`, which Captions0 uses to page and color per speaker.
  *
  * Usage:
  *   npx tsx scripts/preprocess-captions.ts
  *   npx tsx scripts/preprocess-captions.ts --transcript public/transcript.json --wordlevel public/wordlevel-timestamp.json
+ *   npx tsx scripts/preprocess-captions.ts --wordlevel narration.srt --format srt
+ *   npx tsx scripts/preprocess-captions.ts --in-place
+ *   npx tsx scripts/preprocess-captions.ts --out public/transcript.final.json
+ *   npx tsx scripts/preprocess-captions.ts --check
+ *
+ * The subtitles subcommand writes the word list as an SRT or WebVTT file instead
+ * (format from the --out extension), paged like Captions0 shows it:
+ *   npx tsx scripts/preprocess-captions.ts subtitles --out renders/narration.srt [--combine-ms 1200]
+ *
+ * The confidence subcommand lists the words the ASR was unsure of (below --threshold,
+ * default 0.6) with their timestamps, so they can be fixed before the final render:
+ *   npx tsx scripts/preprocess-captions.ts confidence --wordlevel deepgram.json [--threshold 0.8]
  */
 
 import fs from 'fs';
 import path from 'path';
-
-type WordTimestamp = {
-    word: string;
-    start: number; // seconds
-    end: number;   // seconds
-};
-
-type Caption = {
-    text: string;
-    startMs: number;
-    endMs: number;
-    timestampMs: number;
-    confidence: number | null;
-};
+import { captionParsers, parseCaptionFile } from './caption-parsers';
+import { z } from 'zod';
+import { captionsToSubtitles, DEFAULT_SUBTITLE_COMBINE_MS } from '../src/subtitles';
+import { compositionManifest, DEFAULT_CONFIDENCE_THRESHOLD, SpeakerCaption } from '../src/compositionManifest';
 
 type Shot = {
     sentence: string;
@@ -42,8 +56,15 @@ type Transcript = {
 
 function parseArgs() {
     const args = process.argv.slice(2);
+    const command = args[0] && !args[0].startsWith('--') ? args[0] : 'populate';
     let transcriptPath = path.resolve(__dirname, '../public/transcript.json');
     let wordlevelPath = path.resolve(__dirname, '../public/wordlevel-timestamp.json');
+    let format: string | undefined;
+    let outPath: string | undefined;
+    let combineMs = DEFAULT_SUBTITLE_COMBINE_MS;
+    let threshold = DEFAULT_CONFIDENCE_THRESHOLD;
+    let inPlace = false;
+    let check = false;
 
     for (let i = 0; i < args.length; i++) {
         if (args[i] === '--transcript' && args[i + 1]) {
@@ -52,54 +73,238 @@ function parseArgs() {
         } else if (args[i] === '--wordlevel' && args[i + 1]) {
             wordlevelPath = path.resolve(args[i + 1]);
             i++;
+        } else if (args[i] === '--format' && args[i + 1]) {
+            format = args[i + 1];
+            i++;
+        } else if (args[i] === '--out' && args[i + 1]) {
+            outPath = path.resolve(args[i + 1]);
+            i++;
+        } else if (args[i] === '--combine-ms' && args[i + 1]) {
+            combineMs = Number(args[i + 1]);
+            i++;
+        } else if (args[i] === '--threshold' && args[i + 1]) {
+            threshold = Number(args[i + 1]);
+            i++;
+        } else if (args[i] === '--in-place') {
+            inPlace = true;
+        } else if (args[i] === '--check') {
+            check = true;
+        } else if (args[i] === '--list-formats') {
+            for (const parser of captionParsers) {
+                console.log(`${parser.name.padEnd(12)} ${parser.description}`);
+            }
+            process.exit(0);
         }
     }
 
-    return { transcriptPath, wordlevelPath };
+    return { command, transcriptPath, wordlevelPath, format, outPath, combineMs, threshold, inPlace, check };
+}
+
+// Compositions whose props schema has a `captions` array (Captions0 today)
+function getCaptionCompositionIds(): Set<string> {
+    const ids = new Set<string>();
+    for (const entry of compositionManifest) {
+        if (!(entry.schema instanceof z.ZodObject)) continue;
+
+        let field: z.ZodTypeAny | undefined = entry.schema.shape.captions;
+        while (field instanceof z.ZodOptional || field instanceof z.ZodNullable || field instanceof z.ZodDefault) {
+            field = field instanceof z.ZodDefault ? field._def.innerType : field.unwrap();
+        }
+        if (field instanceof z.ZodArray) ids.add(entry.id);
+    }
+    return ids;
 }
 
+// Words spoken during the shot, with times re-based to the shot's start
 function sliceCaptions(
-    words: WordTimestamp[],
+    captions: SpeakerCaption[],
     startTimeSec: number,
     endTimeSec: number,
-): Caption[] {
-    return words
-        .filter((w) => w.end > startTimeSec && w.start < endTimeSec)
-        .map((w) => ({
-            text: w.word,
-            startMs: Math.round(w.start * 1000),
-            endMs: Math.round(w.end * 1000),
-            timestampMs: Math.round(((w.start + w.end) / 2) * 1000),
-            confidence: null,
+): SpeakerCaption[] {
+    const offsetMs = Math.round(startTimeSec * 1000);
+    return captions
+        .filter((c) => c.endMs > startTimeSec * 1000 && c.startMs < endTimeSec * 1000)
+        .map((c) => ({
+            ...c,
+            startMs: Math.max(0, c.startMs - offsetMs),
+            endMs: c.endMs - offsetMs,
+            timestampMs: c.timestampMs === null ? null : Math.max(0, c.timestampMs - offsetMs),
         }));
 }
 
-function main() {
-    const { transcriptPath, wordlevelPath } = parseArgs();
+// Problems with one caption shot's words: none found, words cut by the shot's edges, or words overlapping each other.
+// Notes are worth a look but don't fail --check.
+function checkShotWords(shot: Shot, words: SpeakerCaption[]): { problems: string[]; notes: string[] } {
+    const problems: string[] = [];
+    const notes: string[] = [];
+    const startMs = shot.start_time * 1000;
+    const endMs = shot.end_time * 1000;
+    const inShot = words.filter((w) => w.endMs > startMs && w.startMs < endMs);
 
-    if (!fs.existsSync(transcriptPath)) {
-        console.error(`Transcript not found: ${transcriptPath}`);
-        process.exit(1);
+    if (inShot.length === 0) {
+        problems.push('no words in this time range');
+    }
+
+    for (const word of inShot) {
+        if (word.startMs < startMs || word.endMs > endMs) {
+            problems.push(`"${word.text.trim()}" (${word.startMs}-${word.endMs}ms) crosses the shot boundary and will show in two shots`);
+        }
+    }
+
+    inShot.forEach((word, index) => {
+        const previous = inShot[index - 1];
+        if (previous && word.startMs < previous.endMs) {
+            problems.push(`"${previous.text.trim()}" and "${word.text.trim()}" overlap (${word.startMs}ms < ${previous.endMs}ms)`);
+        }
+    });
+
+    // The sentence is what the shot-list LLM expected to be said here
+    if (shot.sentence && inShot.length > 0) {
+        const expected = shot.sentence.split(/\s+/).filter(Boolean).length;
+        if (expected !== inShot.length) {
+            notes.push(`sentence has ${expected} words but ${inShot.length} were found`);
+        }
     }
+
+    return { problems, notes };
+}
+
+function readWordCaptions(wordlevelPath: string, format: string | undefined): SpeakerCaption[] {
     if (!fs.existsSync(wordlevelPath)) {
         console.error(`Word-level timestamps not found: ${wordlevelPath}`);
         console.error('Please provide a wordlevel-timestamp.json file in public/');
         process.exit(1);
     }
 
+    try {
+        const parsed = parseCaptionFile(wordlevelPath, fs.readFileSync(wordlevelPath, 'utf-8'), format);
+        const speakers = new Set(parsed.captions.flatMap((caption) => caption.speaker ?? []));
+        console.log(`Read ${parsed.captions.length} words from ${wordlevelPath} (${parsed.format})`
+            + (speakers.size > 0 ? `, speakers: ${[...speakers].join(', ')}` : ''));
+        return parsed.captions;
+    } catch (error) {
+        console.error(error instanceof Error ? error.message : error);
+        process.exit(1);
+    }
+}
+
+function exportSubtitles(wordlevelPath: string, format: string | undefined, outPath: string | undefined, combineMs: number) {
+    if (!outPath || !/\.(srt|vtt)$/i.test(outPath)) {
+        console.error('subtitles needs --out <file.srt|file.vtt>');
+        process.exit(1);
+    }
+    if (!(combineMs > 0)) {
+        console.error('--combine-ms must be a positive number of milliseconds');
+        process.exit(1);
+    }
+
+    const captions = readWordCaptions(wordlevelPath, format);
+    const subtitleFormat = outPath.toLowerCase().endsWith('.vtt') ? 'vtt' : 'srt';
+    fs.mkdirSync(path.dirname(outPath), { recursive: true });
+    fs.writeFileSync(outPath, captionsToSubtitles(captions, subtitleFormat, combineMs));
+    console.log(`Wrote ${subtitleFormat.toUpperCase()} subtitles to ${outPath}`);
+}
+
+// Milliseconds as m:ss.mmm, precise enough to find the word in an audio editor
+function formatWordTime(ms: number): string {
+    const minutes = Math.floor(ms / 60000);
+    const seconds = ((ms % 60000) / 1000).toFixed(3).padStart(6, '0');
+    return `${minutes}:${seconds}`;
+}
+
+function reportLowConfidence(wordlevelPath: string, format: string | undefined, threshold: number) {
+    if (!(threshold >= 0 && threshold <= 1)) {
+        console.error('--threshold must be between 0 and 1');
+        process.exit(1);
+    }
+
+    const captions = readWordCaptions(wordlevelPath, format);
+    const scored = captions.filter((caption) => caption.confidence !== null);
+    if (scored.length === 0) {
+        console.log('The word list has no confidence scores (flat lists without "confidence", OpenAI verbose_json, SRT and WebVTT carry none).');
+        return;
+    }
+
+    const doubtful = captions
+        .map((caption, index) => ({ caption, index }))
+        .filter(({ caption }) => caption.confidence !== null && caption.confidence < threshold);
+
+    for (const { caption, index } of doubtful) {
+        // A few words either side, so the word can be found by ear
+        const context = captions.slice(Math.max(0, index - 3), index + 4)
+            .map((word) => (word === caption ? `[${word.text.trim()}]` : word.text.trim()))
+            .join(' ');
+        console.log(
+            `${formatWordTime(caption.startMs)}-${formatWordTime(caption.endMs)}  `
+            + `${caption.confidence!.toFixed(2)}  "${caption.text.trim()}"  … ${context} …`,
+        );
+    }
+    console.log(`\n${doubtful.length} of ${scored.length} word(s) below confidence ${threshold}`);
+}
+
+function main() {
+    const { command, transcriptPath, wordlevelPath, format, outPath, combineMs, threshold, inPlace, check } = parseArgs();
+
+    if (command === 'subtitles') {
+        exportSubtitles(wordlevelPath, format, outPath, combineMs);
+        return;
+    }
+    if (command === 'confidence') {
+        reportLowConfidence(wordlevelPath, format, threshold);
+        return;
+    }
+    if (command !== 'populate') {
+        console.error(`Unknown command "${command}". Commands: populate (default), subtitles, confidence`);
+        process.exit(1);
+    }
+
+    if (!fs.existsSync(transcriptPath)) {
+        console.error(`Transcript not found: ${transcriptPath}`);
+        process.exit(1);
+    }
+
     const transcript: Transcript = JSON.parse(fs.readFileSync(transcriptPath, 'utf-8'));
-    const wordTimestamps: WordTimestamp[] = JSON.parse(fs.readFileSync(wordlevelPath, 'utf-8'));
+    const wordCaptions = readWordCaptions(wordlevelPath, format);
+    const doubtfulCount = wordCaptions.filter((caption) => caption.confidence !== null && caption.confidence < threshold).length;
+    if (doubtfulCount > 0) {
+        console.warn(`⚠ ${doubtfulCount} word(s) below confidence ${threshold}; list them with the confidence command`);
+    }
+    const captionCompositionIds = getCaptionCompositionIds();
+    const captionShots = transcript.shots.filter((shot) => captionCompositionIds.has(shot.compositionId));
 
-    let captionShotCount = 0;
+    if (captionShots.length === 0) {
+        console.log(`No caption shots (${[...captionCompositionIds].join(', ')}) found in transcript. Nothing to do.`);
+        return;
+    }
 
-    for (const shot of transcript.shots) {
-        if (shot.compositionId !== 'Captions0') continue;
+    if (check) {
+        let problemCount = 0;
+        for (const shot of captionShots) {
+            const { problems, notes } = checkShotWords(shot, wordCaptions);
+            const label = `${shot.compositionId} shot at ${shot.start_time}s-${shot.end_time}s`;
+            if (problems.length === 0) {
+                console.log(`✓ ${label}`);
+            } else {
+                problemCount += problems.length;
+                console.warn(`⚠ ${label}: "${shot.sentence}"`);
+                for (const problem of problems) {
+                    console.warn(`    - ${problem}`);
+                }
+            }
+            for (const note of notes) {
+                console.log(`    ℹ ${note}`);
+            }
+        }
+        console.log(`\n${problemCount} problem(s) in ${captionShots.length} caption shot(s)`);
+        process.exit(problemCount > 0 ? 1 : 0);
+    }
 
-        const captions = sliceCaptions(wordTimestamps, shot.start_time, shot.end_time);
+    for (const shot of captionShots) {
+        const captions = sliceCaptions(wordCaptions, shot.start_time, shot.end_time);
 
         if (captions.length === 0) {
             console.warn(
-                `⚠ No words found for Captions0 shot at ${shot.start_time}s-${shot.end_time}s: "${shot.sentence}"`,
+                `⚠ No words found for ${shot.compositionId} shot at ${shot.start_time}s-${shot.end_time}s: "${shot.sentence}"`,
             );
         }
 
@@ -108,19 +313,16 @@ function main() {
             captions,
         };
 
-        captionShotCount++;
         console.log(
-            `✓ Populated ${captions.length} words for shot at ${shot.start_time}s-${shot.end_time}s`,
+            `✓ Populated ${captions.length} words for ${shot.compositionId} shot at ${shot.start_time}s-${shot.end_time}s`,
         );
     }
 
-    if (captionShotCount === 0) {
-        console.log('No Captions0 shots found in transcript. Nothing to do.');
-        return;
-    }
-
-    fs.writeFileSync(transcriptPath, JSON.stringify(transcript, null, 2));
-    console.log(`\nDone! Updated ${captionShotCount} Captions0 shot(s) in ${transcriptPath}`);
+    const outputPath = inPlace
+        ? transcriptPath
+        : outPath ?? transcriptPath.replace(/(\.json)?$/, '.captioned.json');
+    fs.writeFileSync(outputPath, JSON.stringify(transcript, null, 2));
+    console.log(`\nDone! Updated ${captionShots.length} caption shot(s) in ${outputPath}`);
 }
 
 main();
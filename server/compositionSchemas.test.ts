@@ -0,0 +1,35 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import transcriptData from '../public/transcript.json';
+import { Transcript } from '../src/compositionManifest';
+import { getPropsJsonSchema, validateInputProps, validateTranscriptShots } from './compositionSchemas';
+
+describe('validateInputProps', () => {
+    it('accepts DynamicCards defaults', () => {
+        assert.equal(validateInputProps('DynamicCards', {}).valid, true);
+    });
+
+    it('counts card title words, not characters', () => {
+        const cards = (titles: string[]) => ({ cards: titles.map((title) => ({ title })) });
+
+        assert.equal(validateInputProps('DynamicCards', cards(['Four words long title'])).valid, true);
+        assert.deepEqual(validateInputProps('DynamicCards', cards(['One two three four five'])), {
+            valid: false,
+            issues: [{ path: 'cards.0.title', message: 'Card titles must be 4 words or less' }],
+        });
+    });
+});
+
+describe('validateTranscriptShots', () => {
+    it('accepts the bundled transcript', () => {
+        assert.deepEqual(validateTranscriptShots(transcriptData as Transcript), []);
+    });
+});
+
+describe('getPropsJsonSchema', () => {
+    it('has no character limit on card titles', () => {
+        const schema = getPropsJsonSchema('DynamicCards') as { properties: { cards: { items: { properties: { title: Record<string, unknown> } } } } };
+
+        assert.equal(schema.properties.cards.items.properties.title.maxLength, undefined);
+    });
+});
@@ -0,0 +1,160 @@
+import { z } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import { compositionIdToManifestEntry, CompositionManifestEntry, Transcript } from '../src/compositionManifest';
+
+// zColor() marks its schema with this description
+const REMOTION_COLOR_DESCRIPTION = '__remotion-color';
+const COLOR_DESCRIPTION = 'CSS color, e.g. "#ff0000"';
+
+export type JsonSchema = Record<string, unknown>;
+
+// zColor() is a refined z.string() described with the marker. A .describe() on the field itself
+// replaces the marker, so a refinement that rejects non-colors with zColor's message counts too.
+function isColorSchema(schema: z.ZodTypeAny): boolean {
+    if (!(schema instanceof z.ZodEffects) || !(schema.innerType() instanceof z.ZodString)) return false;
+    if (schema.description === REMOTION_COLOR_DESCRIPTION) return true;
+    const result = schema.safeParse('not a color');
+    return !result.success && result.error.issues.some((issue) => issue.message === 'Invalid color');
+}
+
+// Wrappers zod-to-json-schema folds into the wrapped type's node
+function unwrapSchema(schema: z.ZodTypeAny): z.ZodTypeAny {
+    if (schema instanceof z.ZodOptional || schema instanceof z.ZodNullable) return unwrapSchema(schema.unwrap());
+    if (schema instanceof z.ZodDefault) return unwrapSchema(schema.removeDefault());
+    if (schema instanceof z.ZodEffects && !isColorSchema(schema)) return unwrapSchema(schema.innerType());
+    return schema;
+}
+
+function asJsonSchema(node: unknown): JsonSchema | null {
+    return node && typeof node === 'object' && !Array.isArray(node) ? node as JsonSchema : null;
+}
+
+// Walk the zod schema alongside its JSON Schema and mark zColor() fields as { type: 'string', format: 'color' },
+// keeping a field's own description and replacing only the internal marker
+function markColorFields(schema: z.ZodTypeAny, node: JsonSchema | null) {
+    if (!node) return;
+
+    // Nullable objects and arrays become anyOf: [schema, { type: 'null' }]
+    if (Array.isArray(node.anyOf)) {
+        for (const option of node.anyOf) {
+            if (asJsonSchema(option)?.type !== 'null') markColorFields(schema, asJsonSchema(option));
+        }
+        return;
+    }
+
+    const inner = unwrapSchema(schema);
+    if (isColorSchema(inner)) {
+        node.format = 'color';
+        if (node.description === undefined || node.description === REMOTION_COLOR_DESCRIPTION) {
+            node.description = COLOR_DESCRIPTION;
+        }
+    } else if (inner instanceof z.ZodObject) {
+        const properties = asJsonSchema(node.properties);
+        for (const [key, value] of Object.entries(inner.shape as z.ZodRawShape)) {
+            markColorFields(value, asJsonSchema(properties?.[key]));
+        }
+    } else if (inner instanceof z.ZodArray) {
+        markColorFields(inner.element, asJsonSchema(node.items));
+    } else if (inner instanceof z.ZodRecord) {
+        markColorFields(inner.valueSchema, asJsonSchema(node.additionalProperties));
+    }
+}
+
+// JSON Schema (draft-07) for a composition's props, inlined without $refs
+export function toJsonSchema(schema: z.ZodTypeAny): JsonSchema {
+    const jsonSchema = zodToJsonSchema(schema, { $refStrategy: 'none' }) as JsonSchema;
+    markColorFields(schema, jsonSchema);
+    return jsonSchema;
+}
+
+export function getManifestEntry(compositionId: string): CompositionManifestEntry | undefined {
+    return compositionIdToManifestEntry[compositionId];
+}
+
+// Keys only in defaultProps (e.g. "comments") aren't in the zod schema but validateInputProps accepts them,
+// so they're listed as properties too; otherwise additionalProperties: false would reject them
+export function getPropsJsonSchema(compositionId: string): JsonSchema | null {
+    const entry = getManifestEntry(compositionId);
+    if (!entry?.schema) return null;
+
+    const jsonSchema = toJsonSchema(entry.schema);
+    const properties = jsonSchema.properties as Record<string, unknown> | undefined;
+    if (properties) {
+        for (const key of Object.keys(entry.defaultProps || {})) {
+            properties[key] ??= { description: 'Not part of the props schema; accepted as given' };
+        }
+    }
+    return jsonSchema;
+}
+
+export type PropsIssue = {
+    path: string; // dot-separated, e.g. "cards.0.title"; "" for the props object itself
+    message: string;
+};
+
+export type PropsValidationResult =
+    | { valid: true; props: Record<string, unknown> }
+    | { valid: false; issues: PropsIssue[] };
+
+// Validate inputProps merged over the registry defaults, the same props the composition will receive.
+// Keys that are neither in the schema nor in defaultProps are reported, so typos don't pass silently.
+export function validateInputProps(compositionId: string, inputProps: Record<string, unknown>): PropsValidationResult {
+    const entry = getManifestEntry(compositionId);
+    if (!entry) {
+        return { valid: false, issues: [{ path: 'compositionId', message: `Unknown composition "${compositionId}"` }] };
+    }
+
+    const props = { ...(entry.defaultProps || {}), ...inputProps };
+    if (!entry.schema) {
+        return { valid: true, props };
+    }
+
+    const issues: PropsIssue[] = [];
+
+    if (entry.schema instanceof z.ZodObject) {
+        const knownKeys = new Set([...Object.keys(entry.schema.shape), ...Object.keys(entry.defaultProps || {})]);
+        for (const key of Object.keys(inputProps)) {
+            if (!knownKeys.has(key)) {
+                issues.push({ path: key, message: `Unknown prop "${key}" for ${compositionId}` });
+            }
+        }
+    }
+
+    const result = entry.schema.safeParse(props);
+    if (!result.success) {
+        issues.push(...result.error.issues.map((issue) => ({
+            path: issue.path.join('.'),
+            message: issue.message,
+        })));
+    }
+
+    return issues.length > 0 ? { valid: false, issues } : { valid: true, props };
+}
+
+// Validate every shot of a transcript; paths point into the transcript, e.g. "shots.3.compositionProps.cards"
+export function validateTranscriptShots(transcript: Transcript): PropsIssue[] {
+    const issues: PropsIssue[] = [];
+
+    transcript.shots.forEach((shot, index) => {
+        const prefix = `shots.${index}`;
+
+        if (shot.end_time <= shot.start_time) {
+            issues.push({ path: `${prefix}.end_time`, message: 'end_time must be after start_time' });
+        }
+        if (index > 0 && shot.start_time < transcript.shots[index - 1].start_time) {
+            issues.push({ path: `${prefix}.start_time`, message: 'Shots must be ordered by start_time' });
+        }
+
+        const validation = validateInputProps(shot.compositionId, shot.compositionProps || {});
+        if (!validation.valid) {
+            issues.push(...validation.issues.map((issue) => ({
+                path: issue.path === 'compositionId'
+                    ? `${prefix}.compositionId`
+                    : [`${prefix}.compositionProps`, issue.path].filter(Boolean).join('.'),
+                message: issue.message,
+            })));
+        }
+    });
+
+    return issues;
+}
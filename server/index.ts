@@ -6,12 +6,25 @@ import path from 'path';
 import fs from 'fs/promises';
 import { z } from 'zod';
 import crypto from 'crypto';
+import { cancelJob, enqueueJob, getJob, getQueuePosition, listJobs, subscribeToJob, waitForJob, RenderJob } from './jobs';
+import {
+    computeCacheKey,
+    findCachedRender,
+    getBundleVersion,
+    isCacheMetadataFile,
+    removeCacheMetadata,
+    writeCacheMetadata,
+    CacheKeyInput,
+} from './renderCache';
+import { isSubtitleFile, removeSubtitleSidecars, writeSubtitleSidecars, SubtitleOption } from './subtitleSidecars';
+import { getManifestEntry, getPropsJsonSchema, validateInputProps, validateTranscriptShots, PropsIssue } from './compositionSchemas';
+import { audioTrackSchema, captionsOverlaySchema, convertTranscriptToShots, getShotsDurationInFrames, MASTER_SEQUENCE_FPS, musicTrackSchema, transcriptSchema } from '../src/compositionManifest';
 
 const app = express();
 const PORT = process.env.PORT || 3000;
 
-// Middleware
-app.use(express.json());
+// Middleware (posted transcripts with word-level captions can exceed the 100kb default)
+app.use(express.json({ limit: '10mb' }));
 
 // CORS middleware to allow cross-origin requests
 app.use((req, res, next) => {
@@ -34,11 +47,18 @@ app.use('/renders', express.static(path.resolve('./renders')));
 app.use('/public', express.static(path.resolve('./public')));
 
 // Validation schemas
+// Subtitle sidecars written next to the MP4 for compositions that show captions
+const subtitleOptionsSchema = {
+    subtitles: z.enum(['srt', 'vtt', 'both']).optional(),
+    subtitleCombineMs: z.number().int().positive().optional(), // words within this window share a cue
+};
+
 const renderVideoSchema = z.object({
     compositionId: z.string(),
     inputProps: z.record(z.any()).optional(),
     compositionCache: z.boolean().optional().default(false),
     codec: z.enum(['h264', 'h265', 'prores']).optional().default('h264'),
+    ...subtitleOptionsSchema,
 });
 
 const renderStillSchema = z.object({
@@ -47,17 +67,56 @@ const renderStillSchema = z.object({
     compositionCache: z.boolean().optional().default(false),
 });
 
-let bundleLocation: string | null = null;
+const renderTranscriptSchema = z.object({
+    transcript: transcriptSchema,
+    transitionSeed: z.union([z.string(), z.number()]).optional(),
+    narration: audioTrackSchema.optional(), // used when the transcript has no audio
+    music: musicTrackSchema.optional(),
+    captions: captionsOverlaySchema.optional(),
+    compositionCache: z.boolean().optional().default(false),
+    codec: z.enum(['h264', 'h265', 'prores']).optional().default('h264'),
+    ...subtitleOptionsSchema,
+});
+
+const validatePropsSchema = z.object({
+    compositionId: z.string(),
+    inputProps: z.record(z.any()).optional(),
+});
+
+// 400 response with a structured list of field paths and messages
+function sendValidationError(res: express.Response, error: string, issues: PropsIssue[]) {
+    return res.status(400).json({
+        success: false,
+        error,
+        issues
+    });
+}
 
-// Initialize bundle once
+function toPropsIssues(error: z.ZodError): PropsIssue[] {
+    return error.issues.map((issue) => ({ path: issue.path.join('.'), message: issue.message }));
+}
+
+// Handed to the bundle: CodeTransition only fetches twoslash typings from the CDN when this allows it
+const bundleEnvVariables: Record<string, string> = process.env.REMOTION_TWOSLASH_CDN
+    ? { REMOTION_TWOSLASH_CDN: process.env.REMOTION_TWOSLASH_CDN }
+    : {};
+
+let bundleLocation: Promise<string> | null = null;
+
+// Initialize bundle once (concurrent jobs share the same in-flight bundle)
 async function initializeBundle() {
     if (!bundleLocation) {
         console.log('Creating bundle...');
-        bundleLocation = await bundle({
+        bundleLocation = bundle({
             entryPoint: path.resolve('./src/index.ts'),
             webpackOverride: (config) => enableTailwind(config),
+        }).then((location) => {
+            console.log('Bundle created at:', location);
+            return location;
+        }).catch((error) => {
+            bundleLocation = null;
+            throw error;
         });
-        console.log('Bundle created at:', bundleLocation);
     }
     return bundleLocation;
 }
@@ -70,27 +129,22 @@ function generateFilename(compositionId: string, isStill: boolean = false): stri
     return `${compositionId}_${timestamp}.${extension}`;
 }
 
-// Check if cached file exists for composition
-async function getCachedFile(compositionId: string, isStill: boolean = false): Promise<string | null> {
-    try {
-        const rendersDir = path.resolve('./renders');
-        const files = await fs.readdir(rendersDir);
-
-        // Look for files that start with the composition ID
-        const cachedFile = files.find(file => {
-            const extension = isStill ? '.png' : '.mp4';
-            return file.startsWith(compositionId) && file.endsWith(extension);
-        });
-
-        if (cachedFile) {
-            return path.join(rendersDir, cachedFile);
-        }
-
-        return null;
-    } catch (error) {
-        console.error('Error checking for cached file:', error);
-        return null;
-    }
+// Cache key input for a selected composition; resolved props already include defaultProps
+async function getCacheKeyInput(
+    bundlePath: string,
+    composition: { id: string; props: Record<string, unknown>; width: number; height: number; fps: number; durationInFrames: number },
+    codec: string,
+): Promise<CacheKeyInput> {
+    return {
+        compositionId: composition.id,
+        inputProps: composition.props,
+        codec,
+        width: composition.width,
+        height: composition.height,
+        fps: composition.fps,
+        durationInFrames: composition.durationInFrames,
+        bundleVersion: await getBundleVersion(bundlePath),
+    };
 }
 
 // Ensure renders directory exists
@@ -197,7 +251,7 @@ async function cleanupOldFiles(compositionId: string, isStill: boolean = false)
         const extension = isStill ? '.png' : '.mp4';
 
         const compositionFiles = files
-            .filter(file => file.startsWith(compositionId) && file.endsWith(extension))
+            .filter(file => file.startsWith(`${compositionId}_`) && file.endsWith(extension))
             .map(file => ({
                 name: file,
                 path: path.join(rendersDir, file),
@@ -224,6 +278,8 @@ async function cleanupOldFiles(compositionId: string, isStill: boolean = false)
         for (const file of filesToDelete) {
             try {
                 await fs.unlink(file.path);
+                await removeCacheMetadata(file.path);
+                await removeSubtitleSidecars(file.path);
                 console.log(`Cleaned up old file: ${file.name}`);
             } catch (error) {
                 console.error(`Error deleting file ${file.name}:`, error);
@@ -234,67 +290,173 @@ async function cleanupOldFiles(compositionId: string, isStill: boolean = false)
     }
 }
 
-// POST /render/video - Render a video composition
-app.post('/render/video', async (req, res) => {
-    try {
-        const validatedData = renderVideoSchema.parse(req.body);
-        const { compositionId, inputProps = {}, compositionCache, codec } = validatedData;
-
-        // Check for cached file if compositionCache is enabled
-        if (compositionCache) {
-            const cachedFile = await getCachedFile(compositionId, false);
-            if (cachedFile) {
-                const filename = path.basename(cachedFile);
-                return res.json({
-                    success: true,
-                    message: 'Using cached video',
-                    filename,
-                    url: `/renders/${filename}`,
-                    cached: true
-                });
-            }
-        }
-
+type VideoRenderOptions = {
+    compositionId: string;
+    inputProps: Record<string, unknown>;
+    codec: z.infer<typeof renderVideoSchema>['codec'];
+    compositionCache: boolean;
+    subtitles?: SubtitleOption;
+    subtitleCombineMs?: number;
+};
+
+// Queue a video render; progress is reported through GET /jobs/:id
+function queueVideoRender({ compositionId, inputProps, codec, compositionCache, subtitles, subtitleCombineMs }: VideoRenderOptions): RenderJob {
+    return enqueueJob('video', compositionId, async ({ cancelSignal, setStage, throwIfCancelled, setTotalFrames, setOutputPath, reportProgress }) => {
         // Initialize bundle
+        setStage('bundling');
         const bundlePath = await initializeBundle();
+        throwIfCancelled();
 
         // Get composition
+        setStage('selecting-composition');
         const composition = await selectComposition({
             serveUrl: bundlePath,
             id: compositionId,
             inputProps,
+            envVariables: bundleEnvVariables,
         });
+        setTotalFrames(composition.durationInFrames);
+        throwIfCancelled();
+
+        // Exact cache lookup on composition, resolved props, codec, dimensions and bundle version
+        const cacheInput = await getCacheKeyInput(bundlePath, composition, codec);
+        const cacheKey = computeCacheKey(cacheInput);
+        if (compositionCache) {
+            const cached = await findCachedRender(path.resolve('./renders'), cacheKey);
+            if (cached) {
+                console.log(`Using cached video for ${compositionId}: ${cached.filename}`);
+                const subtitleFiles = subtitles
+                    ? await writeSubtitleSidecars(path.resolve('./renders', cached.filename), compositionId, composition.props, composition.fps, subtitles, subtitleCombineMs)
+                    : [];
+                return { filename: cached.filename, cached: true, subtitles: subtitleFiles };
+            }
+        }
 
         // Generate filename
         const filename = generateFilename(compositionId, false);
         const outputPath = path.resolve('./renders', filename);
+        setOutputPath(outputPath);
 
         // Ensure renders directory exists
         await ensureRendersDir();
 
         // Render video
         console.log(`Rendering video: ${compositionId} to ${filename}`);
+        setStage('rendering');
         await renderMedia({
             composition,
             serveUrl: bundlePath,
             codec,
             outputLocation: outputPath,
             inputProps,
+            envVariables: bundleEnvVariables,
+            cancelSignal,
+            onProgress: ({ progress, renderedFrames, encodedFrames, renderedDoneIn }) => {
+                // Frames are encoded while rendering; once every frame is rendered only encoding/muxing is left
+                if (renderedDoneIn !== null) setStage('encoding');
+                reportProgress({ progress, renderedFrames, encodedFrames });
+            },
         });
 
+        await writeCacheMetadata(outputPath, cacheInput, cacheKey);
+
+        // Subtitles come from the resolved props, e.g. the shots MasterSequence derived from a transcript
+        const subtitleFiles = subtitles
+            ? await writeSubtitleSidecars(outputPath, compositionId, composition.props, composition.fps, subtitles, subtitleCombineMs)
+            : [];
+
         // Clean up old files
         await cleanupOldFiles(compositionId, false);
 
-        res.json({
+        return { filename, cached: false, subtitles: subtitleFiles };
+    });
+}
+
+// POST /render/video - Render a video composition
+app.post('/render/video', async (req, res) => {
+    try {
+        const validatedData = renderVideoSchema.parse(req.body);
+        const { compositionId, inputProps = {}, compositionCache, codec, subtitles, subtitleCombineMs } = validatedData;
+
+        // Reject bad props before they reach Chromium
+        const validation = validateInputProps(compositionId, inputProps);
+        if (!validation.valid) {
+            return sendValidationError(res, `Invalid inputProps for ${compositionId}`, validation.issues);
+        }
+
+        const job = queueVideoRender({ compositionId, inputProps, codec, compositionCache, subtitles, subtitleCombineMs });
+
+        res.status(202).json({
             success: true,
-            message: 'Video rendered successfully',
-            filename,
-            url: `/renders/${filename}`,
-            cached: false
+            message: 'Video render queued',
+            jobId: job.id,
+            status: job.status,
+            statusUrl: `/jobs/${job.id}`
+        });
+
+    } catch (error) {
+        if (error instanceof z.ZodError) {
+            return sendValidationError(res, 'Invalid request body', toPropsIssues(error));
+        }
+        console.error('Error queuing video render:', error);
+        res.status(500).json({
+            success: false,
+            error: error instanceof Error ? error.message : 'Unknown error occurred'
+        });
+    }
+});
+
+// POST /render/transcript - Render MasterSequence from a posted transcript document
+app.post('/render/transcript', async (req, res) => {
+    try {
+        const {
+            transcript, transitionSeed, narration, music, captions, compositionCache, codec, subtitles, subtitleCombineMs,
+        } = renderTranscriptSchema.parse(req.body);
+
+        const issues = validateTranscriptShots(transcript);
+        if (issues.length > 0) {
+            return sendValidationError(res, 'Invalid transcript', issues.map((issue) => ({
+                ...issue,
+                path: `transcript.${issue.path}`,
+            })));
+        }
+
+        // MasterSequence's calculateMetadata converts the transcript and sizes the video;
+        // the same conversion here only reports the expected length back
+        const shots = convertTranscriptToShots(transcript, MASTER_SEQUENCE_FPS);
+        const durationInFrames = getShotsDurationInFrames(shots);
+
+        const job = queueVideoRender({
+            compositionId: 'MasterSequence',
+            inputProps: {
+                transcript,
+                // null rather than omitted, so the bundled transcript's narration isn't merged in from defaultProps
+                narration: narration ?? null,
+                music: music ?? null,
+                captions: captions ?? null,
+                ...(transitionSeed === undefined ? {} : { transitionSeed }),
+            },
+            codec,
+            compositionCache,
+            subtitles,
+            subtitleCombineMs,
+        });
+
+        res.status(202).json({
+            success: true,
+            message: 'Transcript render queued',
+            jobId: job.id,
+            status: job.status,
+            statusUrl: `/jobs/${job.id}`,
+            shotCount: shots.length,
+            durationInFrames
         });
 
     } catch (error) {
-        console.error('Error rendering video:', error);
+        if (error instanceof z.ZodError) {
+            return sendValidationError(res, 'Invalid request body', toPropsIssues(error));
+        }
+        console.error('Error queuing transcript render:', error);
         res.status(500).json({
             success: false,
             error: error instanceof Error ? error.message : 'Unknown error occurred'
@@ -308,58 +470,95 @@ app.post('/render/still', async (req, res) => {
         const validatedData = renderStillSchema.parse(req.body);
         const { compositionId, inputProps = {}, compositionCache } = validatedData;
 
-        // Check for cached file if compositionCache is enabled
-        if (compositionCache) {
-            const cachedFile = await getCachedFile(compositionId, true);
-            if (cachedFile) {
-                const filename = path.basename(cachedFile);
-                return res.json({
-                    success: true,
-                    message: 'Using cached still',
-                    filename,
-                    url: `/renders/${filename}`,
-                    cached: true
-                });
-            }
+        // Reject bad props before they reach Chromium
+        const validation = validateInputProps(compositionId, inputProps);
+        if (!validation.valid) {
+            return sendValidationError(res, `Invalid inputProps for ${compositionId}`, validation.issues);
         }
 
-        // Initialize bundle
-        const bundlePath = await initializeBundle();
+        // Stills go through the same queue so they share the concurrency limit,
+        // but the request still waits for the result
+        const queued = enqueueJob('still', compositionId, async ({ cancelSignal, setStage, throwIfCancelled, setTotalFrames, setOutputPath, reportProgress }) => {
+            // Initialize bundle
+            setStage('bundling');
+            const bundlePath = await initializeBundle();
+            throwIfCancelled();
+
+            // Get composition
+            setStage('selecting-composition');
+            const composition = await selectComposition({
+                serveUrl: bundlePath,
+                id: compositionId,
+                inputProps,
+                envVariables: bundleEnvVariables,
+            });
+            setTotalFrames(1);
+            throwIfCancelled();
+
+            const cacheInput = await getCacheKeyInput(bundlePath, composition, 'png');
+            const cacheKey = computeCacheKey(cacheInput);
+            if (compositionCache) {
+                const cached = await findCachedRender(path.resolve('./renders'), cacheKey);
+                if (cached) {
+                    console.log(`Using cached still for ${compositionId}: ${cached.filename}`);
+                    return { filename: cached.filename, cached: true };
+                }
+            }
 
-        // Get composition
-        const composition = await selectComposition({
-            serveUrl: bundlePath,
-            id: compositionId,
-            inputProps,
-        });
+            // Generate filename
+            const filename = generateFilename(compositionId, true);
+            const outputPath = path.resolve('./renders', filename);
+            setOutputPath(outputPath);
+
+            // Ensure renders directory exists
+            await ensureRendersDir();
+
+            // Render still
+            console.log(`Rendering still: ${compositionId} to ${filename}`);
+            setStage('rendering');
+            await renderStill({
+                composition,
+                serveUrl: bundlePath,
+                output: outputPath,
+                inputProps,
+                envVariables: bundleEnvVariables,
+                cancelSignal,
+            });
+            reportProgress({ progress: 1, renderedFrames: 1, encodedFrames: 1 });
 
-        // Generate filename
-        const filename = generateFilename(compositionId, true);
-        const outputPath = path.resolve('./renders', filename);
+            await writeCacheMetadata(outputPath, cacheInput, cacheKey);
 
-        // Ensure renders directory exists
-        await ensureRendersDir();
+            // Clean up old files
+            await cleanupOldFiles(compositionId, true);
 
-        // Render still
-        console.log(`Rendering still: ${compositionId} to ${filename}`);
-        await renderStill({
-            composition,
-            serveUrl: bundlePath,
-            output: outputPath,
-            inputProps,
+            return { filename, cached: false };
         });
-        // Clean up old files
-        await cleanupOldFiles(compositionId, true);
+
+        const job = await waitForJob(queued.id);
+        if (job.status === 'cancelled') {
+            return res.status(409).json({
+                success: false,
+                jobId: job.id,
+                error: 'Render was cancelled'
+            });
+        }
+        if (job.status !== 'completed' || !job.filename) {
+            throw new Error(job.error || 'Still render failed');
+        }
 
         res.json({
             success: true,
-            message: 'Still rendered successfully',
-            filename,
-            url: `/renders/${filename}`,
-            cached: false
+            message: job.cached ? 'Using cached still' : 'Still rendered successfully',
+            jobId: job.id,
+            filename: job.filename,
+            url: job.url,
+            cached: job.cached
         });
 
     } catch (error) {
+        if (error instanceof z.ZodError) {
+            return sendValidationError(res, 'Invalid request body', toPropsIssues(error));
+        }
         console.error('Error rendering still:', error);
         res.status(500).json({
             success: false,
@@ -368,6 +567,129 @@ app.post('/render/still', async (req, res) => {
     }
 });
 
+// POST /validate - Dry-run inputProps validation against the composition's schema, without rendering
+app.post('/validate', (req, res) => {
+    const parsed = validatePropsSchema.safeParse(req.body);
+    if (!parsed.success) {
+        return sendValidationError(res, 'Invalid request body', toPropsIssues(parsed.error));
+    }
+
+    const { compositionId, inputProps = {} } = parsed.data;
+    const validation = validateInputProps(compositionId, inputProps);
+
+    res.json({
+        success: true,
+        compositionId,
+        valid: validation.valid,
+        issues: validation.valid ? [] : validation.issues
+    });
+});
+
+// Shape a job for API responses
+function serializeJob(job: RenderJob) {
+    return {
+        ...job,
+        progressPercent: Math.round(job.progress * 1000) / 10,
+        queuePosition: getQueuePosition(job.id),
+    };
+}
+
+// GET /jobs - List render jobs (newest first)
+app.get('/jobs', (req, res) => {
+    res.json({
+        success: true,
+        jobs: listJobs().map(serializeJob)
+    });
+});
+
+// GET /jobs/:id - Status and progress of a render job
+app.get('/jobs/:id', (req, res) => {
+    const job = getJob(req.params.id);
+    if (!job) {
+        return res.status(404).json({
+            success: false,
+            error: `Job ${req.params.id} not found`
+        });
+    }
+
+    res.json({
+        success: true,
+        job: serializeJob(job)
+    });
+});
+
+// DELETE /jobs/:id - Cancel a queued or running render
+app.delete('/jobs/:id', (req, res) => {
+    const job = getJob(req.params.id);
+    if (!job) {
+        return res.status(404).json({
+            success: false,
+            error: `Job ${req.params.id} not found`
+        });
+    }
+
+    if (!cancelJob(job.id)) {
+        return res.status(409).json({
+            success: false,
+            error: `Job ${job.id} has already finished (${job.status})`,
+            job: serializeJob(job)
+        });
+    }
+
+    // A running render stops asynchronously; the job reports 'cancelled' once the renderer has aborted
+    res.json({
+        success: true,
+        message: job.status === 'cancelled' ? 'Job cancelled' : 'Cancellation requested',
+        job: serializeJob(job)
+    });
+});
+
+// GET /jobs/:id/events - Server-Sent Events stream of stage changes and frame progress
+app.get('/jobs/:id/events', (req, res) => {
+    const job = getJob(req.params.id);
+    if (!job) {
+        return res.status(404).json({
+            success: false,
+            error: `Job ${req.params.id} not found`
+        });
+    }
+
+    res.writeHead(200, {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        'Connection': 'keep-alive',
+    });
+
+    const send = (type: string, data: RenderJob) => {
+        res.write(`event: ${type}\ndata: ${JSON.stringify(serializeJob(data))}\n\n`);
+    };
+
+    // Current state first, so late subscribers don't wait for the next update
+    send('stage', job);
+    if (job.finishedAt) {
+        send(job.status === 'completed' ? 'done' : job.status === 'cancelled' ? 'cancelled' : 'error', job);
+        return res.end();
+    }
+
+    // Comment lines keep proxies from closing an idle connection during long encodes
+    const keepAlive = setInterval(() => res.write(': keep-alive\n\n'), 15000);
+
+    const unsubscribe = subscribeToJob(job.id, (type, updated) => {
+        send(type, updated);
+        if (type === 'done' || type === 'error' || type === 'cancelled') {
+            cleanup();
+            res.end();
+        }
+    });
+
+    function cleanup() {
+        clearInterval(keepAlive);
+        unsubscribe();
+    }
+
+    req.on('close', cleanup);
+});
+
 // GET /compositions - List available compositions
 app.get('/compositions', async (req, res) => {
     try {
@@ -375,18 +697,20 @@ app.get('/compositions', async (req, res) => {
         const bundlePath = await initializeBundle();
 
         // Get compositions from the bundle
-        const compositions = await getCompositions(bundlePath);
+        const compositions = await getCompositions(bundlePath, { envVariables: bundleEnvVariables });
 
-        // Extract inputProps information from defaultProps
+        // Combine the bundle's resolved metadata with the registry's props schema
         const compositionsWithSchema = compositions.map(comp => {
-            console.log(comp)
+            const entry = getManifestEntry(comp.id);
             return {
                 id: comp.id,
-                // durationInFrames: comp.durationInFrames,
-                // fps: comp.fps,
-                // width: comp.width,
-                // height: comp.height,
+                kind: entry?.kind ?? 'composition',
+                durationInFrames: comp.durationInFrames,
+                fps: comp.fps,
+                width: comp.width,
+                height: comp.height,
                 defaultProps: comp.defaultProps,
+                schema: getPropsJsonSchema(comp.id),
             };
         });
 
@@ -411,7 +735,7 @@ app.get('/compositions', async (req, res) => {
 app.get('/renders', async (req, res) => {
     try {
         const rendersDir = path.resolve('./renders');
-        const files = await fs.readdir(rendersDir);
+        const files = (await fs.readdir(rendersDir)).filter(file => !isCacheMetadataFile(file));
 
         const fileInfo = await Promise.all(
             files.map(async (file) => {
@@ -422,7 +746,7 @@ app.get('/renders', async (req, res) => {
                     size: stats.size,
                     created: stats.birthtime,
                     modified: stats.mtime,
-                    type: file.endsWith('.mp4') ? 'video' : file.endsWith('.png') ? 'still' : 'unknown'
+                    type: file.endsWith('.mp4') ? 'video' : file.endsWith('.png') ? 'still' : isSubtitleFile(file) ? 'subtitles' : 'unknown'
                 };
             })
         );
@@ -447,6 +771,10 @@ app.delete('/renders/:filename', async (req, res) => {
         const filePath = path.resolve('./renders', filename);
 
         await fs.unlink(filePath);
+        await removeCacheMetadata(filePath);
+        if (!isSubtitleFile(filename)) {
+            await removeSubtitleSidecars(filePath);
+        }
 
         res.json({
             success: true,
@@ -503,7 +831,7 @@ app.get('/gallery', (req, res) => {
     res.sendFile(path.resolve('./composition-gallery.html'));
 });
 
-// GET /assets - List available media assets (videos, backdrops, avatars) for prompt crafting
+// GET /assets - List available media assets (videos, backdrops, avatars, sfx) for prompt crafting
 app.get('/assets', async (req, res) => {
     try {
         const publicDir = path.resolve('./public');
@@ -522,6 +850,8 @@ app.get('/assets', async (req, res) => {
                             const ext = path.extname(file).toLowerCase();
                             if (category === 'videos') {
                                 return ['.mp4', '.webm', '.mov', '.avi'].includes(ext);
+                            } else if (category === 'audio') {
+                                return ['.wav', '.mp3', '.ogg', '.m4a', '.aac'].includes(ext);
                             } else {
                                 return ['.jpg', '.jpeg', '.png', '.gif', '.webp'].includes(ext);
                             }
@@ -560,10 +890,11 @@ app.get('/assets', async (req, res) => {
         }
         
         // Get assets from each category
-        const [videos, backdrops, avatars] = await Promise.all([
+        const [videos, backdrops, avatars, sfx] = await Promise.all([
             getAssetsFromDir('videos', 'videos'),
             getAssetsFromDir('backdrops', 'images'),
-            getAssetsFromDir('avatars', 'images')
+            getAssetsFromDir('avatars', 'images'),
+            getAssetsFromDir('sfx', 'audio')
         ]);
         
         // Also get any other assets in the root public directory (not in subdirectories)
@@ -612,6 +943,11 @@ app.get('/assets', async (req, res) => {
                     items: avatars,
                     description: 'Avatar images available for AvatarScreen composition. Use the "path" field in imageSource prop.'
                 },
+                sfx: {
+                    count: sfx.length,
+                    items: sfx,
+                    description: 'Sound effects for MasterSequence shots. Use the "path" field as src in a shot\'s audio list.'
+                },
                 other: {
                     count: otherAssets.length,
                     items: otherAssets,
@@ -621,7 +957,8 @@ app.get('/assets', async (req, res) => {
             usage: {
                 videos: 'Use the "path" value (e.g., "videos/Big_Buck_Bunny_360_10s_1MB.mp4") in VideoScreen composition videoSource prop',
                 backdrops: 'Use the "path" value (e.g., "backdrops/gradient-bg-1.jpg") in ImageScreen composition imageSource prop',
-                avatars: 'Use the "path" value (e.g., "avatars/avatar-hand-fold.png") in AvatarScreen composition imageSource prop'
+                avatars: 'Use the "path" value (e.g., "avatars/avatar-hand-fold.png") in AvatarScreen composition imageSource prop',
+                sfx: 'Use the "path" value (e.g., "sfx/whoosh.wav") as src in a MasterSequence shot audio entry: { "src": "sfx/whoosh.wav", "offsetInFrames": 0, "volume": 0.8 }'
             }
         });
     } catch (error) {
@@ -648,6 +985,7 @@ app.listen(PORT, () => {
     console.log(`Health check: http://localhost:${PORT}/health`);
     console.log(`Available compositions: http://localhost:${PORT}/compositions`);
     console.log(`Available assets: http://localhost:${PORT}/assets`);
+    console.log(`Render jobs: http://localhost:${PORT}/jobs`);
     console.log(`Composition Gallery: http://localhost:${PORT}/gallery`);
 });
 
@@ -0,0 +1,279 @@
+import crypto from 'crypto';
+import { EventEmitter } from 'events';
+import fs from 'fs/promises';
+import { makeCancelSignal, CancelSignal } from '@remotion/renderer';
+
+export type JobKind = 'video' | 'still';
+export type JobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+export type JobStage = 'queued' | 'bundling' | 'selecting-composition' | 'rendering' | 'encoding' | 'done' | 'error' | 'cancelled';
+
+// Events pushed to GET /jobs/:id/events subscribers
+export type JobEventType = 'stage' | 'progress' | 'done' | 'error' | 'cancelled';
+export type JobEventListener = (type: JobEventType, job: RenderJob) => void;
+
+export type JobProgress = {
+    progress: number; // 0..1
+    renderedFrames?: number;
+    encodedFrames?: number;
+};
+
+export type RenderJob = {
+    id: string;
+    kind: JobKind;
+    compositionId: string;
+    status: JobStatus;
+    stage: JobStage;
+    progress: number;
+    renderedFrames: number;
+    encodedFrames: number;
+    totalFrames: number | null;
+    etaSeconds: number | null;
+    createdAt: string;
+    startedAt: string | null;
+    finishedAt: string | null;
+    filename: string | null;
+    url: string | null;
+    cached: boolean;
+    subtitles: string[]; // subtitle sidecars written next to the render
+    error: string | null;
+};
+
+export type JobContext = {
+    job: RenderJob;
+    // Pass to renderMedia/renderStill so DELETE /jobs/:id can abort the render
+    cancelSignal: CancelSignal;
+    setStage: (stage: JobStage) => void;
+    // Cancellation only reaches the renderer; call between earlier steps to stop there
+    throwIfCancelled: () => void;
+    setTotalFrames: (totalFrames: number) => void;
+    // Partially written files are removed when the job is cancelled
+    setOutputPath: (outputPath: string) => void;
+    reportProgress: (progress: JobProgress) => void;
+};
+
+// The runner resolves with the file in renders/ (freshly rendered or served from the render cache)
+export type JobResult = { filename: string; cached: boolean; subtitles?: string[] };
+export type JobRunner = (ctx: JobContext) => Promise<JobResult>;
+
+// How many renders may run at once (each one drives its own Chromium instance)
+const RENDER_CONCURRENCY = Math.max(1, Number(process.env.RENDER_CONCURRENCY) || 1);
+
+// Finished jobs kept in memory for GET /jobs/:id
+const MAX_FINISHED_JOBS = 100;
+
+const jobs = new Map<string, RenderJob>();
+const runners = new Map<string, JobRunner>();
+const waiters = new Map<string, Promise<RenderJob>>();
+const resolvers = new Map<string, (job: RenderJob) => void>();
+const controls = new Map<string, { cancel: () => void; cancelRequested: boolean; outputPath: string | null }>();
+const queue: string[] = [];
+let runningCount = 0;
+
+const jobEvents = new EventEmitter();
+// One listener per open SSE connection
+jobEvents.setMaxListeners(0);
+
+// Add a render job to the queue and start it as soon as a slot is free
+export function enqueueJob(kind: JobKind, compositionId: string, run: JobRunner): RenderJob {
+    const job: RenderJob = {
+        id: crypto.randomUUID(),
+        kind,
+        compositionId,
+        status: 'queued',
+        stage: 'queued',
+        progress: 0,
+        renderedFrames: 0,
+        encodedFrames: 0,
+        totalFrames: null,
+        etaSeconds: null,
+        createdAt: new Date().toISOString(),
+        startedAt: null,
+        finishedAt: null,
+        filename: null,
+        url: null,
+        cached: false,
+        subtitles: [],
+        error: null,
+    };
+
+    jobs.set(job.id, job);
+    runners.set(job.id, run);
+    waiters.set(job.id, new Promise((resolve) => resolvers.set(job.id, resolve)));
+    queue.push(job.id);
+
+    processQueue();
+    return job;
+}
+
+export function getJob(id: string): RenderJob | undefined {
+    return jobs.get(id);
+}
+
+// Newest first
+export function listJobs(): RenderJob[] {
+    return Array.from(jobs.values()).sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+// Resolves once the job has completed, failed or been cancelled
+export function waitForJob(id: string): Promise<RenderJob> {
+    const waiter = waiters.get(id);
+    const job = jobs.get(id);
+    if (waiter) return waiter;
+    if (job) return Promise.resolve(job);
+    return Promise.reject(new Error(`Job ${id} not found`));
+}
+
+// Cancel a queued or running job. Returns false if the job has already finished
+export function cancelJob(id: string): boolean {
+    const job = jobs.get(id);
+    if (!job || job.finishedAt) return false;
+
+    const queueIndex = queue.indexOf(id);
+    if (queueIndex !== -1) {
+        queue.splice(queueIndex, 1);
+        job.status = 'cancelled';
+        job.stage = 'cancelled';
+        finishJob(job);
+        return true;
+    }
+
+    const control = controls.get(id);
+    if (control && !control.cancelRequested) {
+        control.cancelRequested = true;
+        control.cancel();
+    }
+    return true;
+}
+
+// Listen to a job's stage/progress changes; returns the unsubscribe function
+export function subscribeToJob(id: string, listener: JobEventListener): () => void {
+    jobEvents.on(id, listener);
+    return () => {
+        jobEvents.off(id, listener);
+    };
+}
+
+function emitJobEvent(job: RenderJob, type: JobEventType) {
+    jobEvents.emit(job.id, type, job);
+}
+
+// Position of a queued job (0 = next to start), or null if not queued
+export function getQueuePosition(id: string): number | null {
+    const index = queue.indexOf(id);
+    return index === -1 ? null : index;
+}
+
+function processQueue() {
+    while (runningCount < RENDER_CONCURRENCY && queue.length > 0) {
+        const id = queue.shift() as string;
+        const job = jobs.get(id);
+        const run = runners.get(id);
+        if (!job || !run) continue;
+
+        runningCount++;
+        runJob(job, run).finally(() => {
+            runningCount--;
+            processQueue();
+        });
+    }
+}
+
+async function runJob(job: RenderJob, run: JobRunner) {
+    job.status = 'running';
+    job.startedAt = new Date().toISOString();
+    const startedAtMs = Date.now();
+    const { cancelSignal, cancel } = makeCancelSignal();
+    const control = { cancel, cancelRequested: false, outputPath: null as string | null };
+    controls.set(job.id, control);
+
+    const ctx: JobContext = {
+        job,
+        cancelSignal,
+        setStage: (stage) => {
+            if (job.stage === stage) return;
+            job.stage = stage;
+            emitJobEvent(job, 'stage');
+        },
+        throwIfCancelled: () => {
+            if (control.cancelRequested) {
+                throw new Error('Render was cancelled');
+            }
+        },
+        setTotalFrames: (totalFrames) => {
+            job.totalFrames = totalFrames;
+        },
+        setOutputPath: (outputPath) => {
+            control.outputPath = outputPath;
+        },
+        reportProgress: ({ progress, renderedFrames, encodedFrames }) => {
+            job.progress = progress;
+            if (renderedFrames !== undefined) job.renderedFrames = renderedFrames;
+            if (encodedFrames !== undefined) job.encodedFrames = encodedFrames;
+
+            // Linear extrapolation from the time spent so far
+            const elapsedSeconds = (Date.now() - startedAtMs) / 1000;
+            job.etaSeconds = progress > 0
+                ? Math.max(0, Math.round(elapsedSeconds / progress - elapsedSeconds))
+                : null;
+            emitJobEvent(job, 'progress');
+        },
+    };
+
+    try {
+        const { filename, cached, subtitles = [] } = await run(ctx);
+        job.status = 'completed';
+        job.stage = 'done';
+        job.progress = 1;
+        job.etaSeconds = 0;
+        job.filename = filename;
+        job.url = `/renders/${filename}`;
+        job.cached = cached;
+        job.subtitles = subtitles;
+    } catch (error) {
+        job.etaSeconds = null;
+        if (control.cancelRequested) {
+            console.log(`Render job ${job.id} cancelled`);
+            job.status = 'cancelled';
+            job.stage = 'cancelled';
+            await removePartialOutput(control.outputPath);
+        } else {
+            console.error(`Render job ${job.id} failed:`, error);
+            job.status = 'failed';
+            job.stage = 'error';
+            job.error = error instanceof Error ? error.message : 'Unknown error occurred';
+        }
+    } finally {
+        controls.delete(job.id);
+        finishJob(job);
+    }
+}
+
+function finishJob(job: RenderJob) {
+    job.finishedAt = new Date().toISOString();
+    const eventType: JobEventType = job.status === 'completed'
+        ? 'done'
+        : job.status === 'cancelled' ? 'cancelled' : 'error';
+    emitJobEvent(job, eventType);
+    runners.delete(job.id);
+    waiters.delete(job.id);
+    resolvers.get(job.id)?.(job);
+    resolvers.delete(job.id);
+    pruneFinishedJobs();
+}
+
+async function removePartialOutput(outputPath: string | null) {
+    if (!outputPath) return;
+    try {
+        await fs.unlink(outputPath);
+        console.log(`Removed partial render: ${outputPath}`);
+    } catch {
+        // Nothing was written yet
+    }
+}
+
+function pruneFinishedJobs() {
+    const finished = listJobs().filter((job) => job.finishedAt !== null);
+    for (const job of finished.slice(MAX_FINISHED_JOBS)) {
+        jobs.delete(job.id);
+    }
+}
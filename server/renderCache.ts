@@ -0,0 +1,105 @@
+import path from 'path';
+import fs from 'fs/promises';
+import crypto from 'crypto';
+
+// Sidecar written next to every render: <filename>.cache.json
+const METADATA_SUFFIX = '.cache.json';
+
+export type CacheKeyInput = {
+    compositionId: string;
+    inputProps: Record<string, unknown>; // resolved props from selectComposition
+    codec: string; // 'png' for stills
+    width: number;
+    height: number;
+    fps: number;
+    durationInFrames: number;
+    bundleVersion: string;
+};
+
+export type CacheMetadata = CacheKeyInput & {
+    cacheKey: string;
+    filename: string;
+    createdAt: string;
+};
+
+const bundleVersions = new Map<string, Promise<string>>();
+
+// Hash of the compiled bundle, so a rebuild with different code or baked-in data gets new cache keys
+export function getBundleVersion(bundleLocation: string): Promise<string> {
+    let version = bundleVersions.get(bundleLocation);
+    if (!version) {
+        version = fs.readFile(path.join(bundleLocation, 'bundle.js'))
+            .then((contents) => crypto.createHash('sha256').update(contents).digest('hex').slice(0, 16));
+        bundleVersions.set(bundleLocation, version);
+    }
+    return version;
+}
+
+// JSON with object keys sorted, so {a, b} and {b, a} hash the same
+function stableStringify(value: unknown): string {
+    if (Array.isArray(value)) {
+        return `[${value.map((item) => stableStringify(item === undefined ? null : item)).join(',')}]`;
+    }
+    if (value && typeof value === 'object') {
+        const entries = Object.keys(value as Record<string, unknown>)
+            .filter((key) => (value as Record<string, unknown>)[key] !== undefined)
+            .sort()
+            .map((key) => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`);
+        return `{${entries.join(',')}}`;
+    }
+    return JSON.stringify(value) ?? 'null';
+}
+
+export function computeCacheKey(input: CacheKeyInput): string {
+    return crypto.createHash('sha256').update(stableStringify(input)).digest('hex');
+}
+
+export function isCacheMetadataFile(filename: string): boolean {
+    return filename.endsWith(METADATA_SUFFIX);
+}
+
+function metadataPathFor(outputPath: string): string {
+    return `${outputPath}${METADATA_SUFFIX}`;
+}
+
+// Find a render whose sidecar has exactly this cache key and whose file still exists
+export async function findCachedRender(rendersDir: string, cacheKey: string): Promise<CacheMetadata | null> {
+    let files: string[];
+    try {
+        files = await fs.readdir(rendersDir);
+    } catch {
+        return null;
+    }
+
+    for (const file of files.filter(isCacheMetadataFile)) {
+        try {
+            const metadata: CacheMetadata = JSON.parse(await fs.readFile(path.join(rendersDir, file), 'utf-8'));
+            if (metadata.cacheKey !== cacheKey) continue;
+
+            await fs.access(path.join(rendersDir, metadata.filename));
+            return metadata;
+        } catch {
+            // Unreadable sidecar or the render was deleted; keep looking
+        }
+    }
+
+    return null;
+}
+
+export async function writeCacheMetadata(outputPath: string, input: CacheKeyInput, cacheKey: string): Promise<void> {
+    const metadata: CacheMetadata = {
+        ...input,
+        cacheKey,
+        filename: path.basename(outputPath),
+        createdAt: new Date().toISOString(),
+    };
+    await fs.writeFile(metadataPathFor(outputPath), JSON.stringify(metadata, null, 2));
+}
+
+export async function removeCacheMetadata(outputPath: string): Promise<void> {
+    try {
+        await fs.unlink(metadataPathFor(outputPath));
+    } catch {
+        // No sidecar for this file
+    }
+}
@@ -0,0 +1,52 @@
+import path from 'path';
+import fs from 'fs/promises';
+import { captionsToSubtitles, getCompositionCaptions, SubtitleFormat } from '../src/subtitles';
+
+export type SubtitleOption = 'srt' | 'vtt' | 'both';
+
+const SUBTITLE_EXTENSIONS = ['.srt', '.vtt'];
+
+export function isSubtitleFile(filename: string): boolean {
+    return SUBTITLE_EXTENSIONS.includes(path.extname(filename).toLowerCase());
+}
+
+// renders/MasterSequence_<timestamp>.mp4 -> renders/MasterSequence_<timestamp>.srt
+function sidecarPathFor(outputPath: string, format: SubtitleFormat): string {
+    return path.join(path.dirname(outputPath), `${path.parse(outputPath).name}.${format}`);
+}
+
+// Write subtitle sidecars for the captions the composition shows; returns the filenames written
+// (none when the composition has no captions)
+export async function writeSubtitleSidecars(
+    outputPath: string,
+    compositionId: string,
+    props: Record<string, unknown>,
+    fps: number,
+    option: SubtitleOption,
+    combineMs?: number,
+): Promise<string[]> {
+    const captions = getCompositionCaptions(compositionId, props, fps);
+    if (!captions || captions.length === 0) {
+        console.log(`No captions to export for ${compositionId}`);
+        return [];
+    }
+
+    const formats: SubtitleFormat[] = option === 'both' ? ['srt', 'vtt'] : [option];
+    const filenames: string[] = [];
+    for (const format of formats) {
+        const sidecarPath = sidecarPathFor(outputPath, format);
+        await fs.writeFile(sidecarPath, captionsToSubtitles(captions, format, combineMs));
+        filenames.push(path.basename(sidecarPath));
+    }
+    return filenames;
+}
+
+export async function removeSubtitleSidecars(outputPath: string): Promise<void> {
+    for (const extension of SUBTITLE_EXTENSIONS) {
+        try {
+            await fs.unlink(sidecarPathFor(outputPath, extension.slice(1) as SubtitleFormat));
+        } catch {
+            // No sidecar in this format
+        }
+    }
+}
@@ -1,13 +1,13 @@
 import React from 'react';
 import { AbsoluteFill, Img, useCurrentFrame } from "remotion";
 import { z } from "zod";
-import { zColor } from "@remotion/zod-types";
 import { getImageSrc } from "./utils/imageUtils";
 import { Prism as SyntaxHighlighter } from 'react-syntax-highlighter';
 import { vscDarkPlus } from 'react-syntax-highlighter/dist/esm/styles/prism';
 import ReactMarkdown from 'react-markdown';
 
 import { DotBgAnim } from "./components/backgroundsCustom";
+import { myCompSchema3 } from "./compositionManifest";
 
 // Utility function to calculate font size based on content length and available space
 const calculateFontSize = (content: string, containerWidth: number, containerHeight: number): string => {
@@ -144,16 +144,6 @@ const detectLanguage = (code: string): string => {
     return 'text';
 };
 
-export const myCompSchema3 = z.object({
-    titleText: z.string(),
-    titleColor: zColor(),
-});
-
-export const imageScreenSchema = z.object({
-    titleText: z.string(),
-    imageSource: z.string().describe("Image source - can be local path, URL, or base64 data"),
-});
-
 export const TitleScreen: React.FC<z.infer<typeof myCompSchema3>> = ({
     titleText,
     titleColor,
@@ -2,6 +2,7 @@ import React from 'react';
 import { AbsoluteFill } from "remotion";
 import { z } from "zod";
 import { zColor } from "@remotion/zod-types";
+import { dynamicCardsSchema } from "./compositionManifest";
 
 export const myCompSchema3 = z.object({
     titleText: z.string(),
@@ -13,15 +14,6 @@ export const imageScreenSchema = z.object({
     imageSource: z.string().describe("Image source - can be local path, URL, or base64 data"),
 });
 
-// Schema for DynamicCards component
-export const dynamicCardsSchema = z.object({
-    titleText: z.string().describe("Main title for the component"),
-    titleColor: zColor().describe("Color of the main title"),
-    cards: z.array(z.object({
-        title: z.string().max(4, "Card titles must be 4 words or less").describe("Card title (max 4 words)"),
-    })).min(1).max(6).describe("Array of card data (1-6 cards)"),
-});
-
 // DynamicCards component implementation
 export const DynamicCards: React.FC<z.infer<typeof dynamicCardsSchema>> = ({
     titleText,
@@ -1,237 +1,565 @@
 import React, { useMemo } from 'react';
-import { AbsoluteFill, interpolate, Sequence, useCurrentFrame, useVideoConfig } from 'remotion';
-import { createTikTokStyleCaptions } from '@remotion/captions';
-import type { Caption, TikTokPage as TikTokPageType } from '@remotion/captions';
+import { AbsoluteFill, getRemotionEnvironment, interpolate, Sequence, spring, useCurrentFrame, useVideoConfig } from 'remotion';
+import type { TikTokPage as TikTokPageType } from '@remotion/captions';
 import { fitText } from '@remotion/layout-utils';
-import { makeTransform, scale, translateY } from '@remotion/animation-utils';
+import { makeTransform, scale, translateX, translateY } from '@remotion/animation-utils';
+import { DEFAULT_CONFIDENCE_THRESHOLD } from './compositionManifest';
+import type { CaptionAppearance, CaptionEmphasis, CaptionFontFamily, CaptionSpeaker, SpeakerCaption } from './compositionManifest';
+import { matchEmphasis } from './caption-utils/emphasis';
+import { useGoogleFont } from './caption-utils/font';
+import { captionsToPage, paginateCaptionsByTime, paginateCaptionsByWidth } from './caption-utils/paginate';
+import { getSpeakersByToken, splitAtSpeakerChanges } from './caption-utils/speakers';
+import { mapByTokenKey, tokenKey } from './caption-utils/token-keys';
 
 export type CaptionStyle = 'highlight' | 'bounce' | 'karaoke' | 'tiktok';
 
 export type Captions0Props = {
-    captions: Caption[];
+    captions: SpeakerCaption[];
     style: CaptionStyle;
+    emphasis?: CaptionEmphasis[];
+    speakers?: Record<string, CaptionSpeaker>;
+    debugConfidence?: boolean;
+    confidenceThreshold?: number;
+} & CaptionAppearance;
+
+// Set on the caption box and used to measure its text, so width pagination and fitText see the rendered font
+const DEFAULT_FONT_FAMILY = 'sans-serif';
+
+type ResolvedAppearance = Required<Omit<CaptionAppearance, 'fontFamily' | 'background'>>
+    & Pick<CaptionAppearance, 'background'>
+    & { fontFamily: CaptionFontFamily | typeof DEFAULT_FONT_FAMILY };
+
+type Entrance = ResolvedAppearance['entrance'];
+
+// enterProgress goes 0 -> 1 as the page appears, exitProgress 0 -> 1 as it leaves;
+// emphasis and lowConfidence hold the emphasized and doubtful words, keyed by tokenKey;
+// speakerName labels the page
+type PageProps = {
+    page: TikTokPageType;
+    enterProgress: number;
+    exitProgress: number;
+    appearance: ResolvedAppearance;
+    emphasis: Map<number, CaptionEmphasis>;
+    lowConfidence: Map<number, number>;
+    speakerName?: string;
 };
 
 const SWITCH_CAPTIONS_EVERY_MS = 1200;
 const TIKTOK_WORDS_PER_PAGE = 1;
 
-function chunkCaptionsIntoPages(captions: Caption[], wordsPerPage: number): TikTokPageType[] {
+function chunkCaptionsIntoPages(captions: SpeakerCaption[], wordsPerPage: number): TikTokPageType[] {
     const pages: TikTokPageType[] = [];
     for (let i = 0; i < captions.length; i += wordsPerPage) {
-        const chunk = captions.slice(i, i + wordsPerPage);
-        pages.push({
-            text: chunk.map((c) => c.text).join(''),
-            startMs: chunk[0].startMs,
-            tokens: chunk.map((c) => ({
-                text: c.text,
-                fromMs: c.startMs,
-                toMs: c.endMs,
-            })),
-        });
+        pages.push(captionsToPage(captions.slice(i, i + wordsPerPage)));
     }
     return pages;
 }
 
-// --- Style 1: Highlight (word turns green when spoken) ---
-const HighlightPage: React.FC<{ page: TikTokPageType; enterProgress: number }> = ({ page }) => {
-    const frame = useCurrentFrame();
-    const { fps } = useVideoConfig();
-    const currentTimeMs = (frame / fps) * 1000;
-    const absoluteTimeMs = page.startMs + currentTimeMs;
+const DEFAULT_APPEARANCE: ResolvedAppearance = {
+    fontFamily: DEFAULT_FONT_FAMILY,
+    fontSize: 72,
+    fontWeight: 700,
+    textColor: 'white',
+    activeColor: '#39E508',
+    strokeWidth: 3,
+    strokeColor: 'black',
+    position: 'bottom',
+    safeAreaOffset: 128,
+    maxWidth: 80,
+    entrance: 'fade',
+    pagination: 'time',
+    maxLines: 2,
+    maxPageDurationMs: 3000,
+};
+
+// Entrance/exit lengths, and the TikTok look the tiktok style defaults to
+const ENTER_ANIMATION_FRAMES = 5;
+const EXIT_ANIMATION_FRAMES = 4;
+const DESIRED_FONT_SIZE = 120;
+const TIKTOK_HIGHLIGHT_COLOR = '#39E508';
+
+// What each style changes from DEFAULT_APPEARANCE
+const STYLE_APPEARANCE: Record<CaptionStyle, Partial<ResolvedAppearance>> = {
+    highlight: { activeColor: '#39E508' },
+    bounce: { activeColor: '#FFD700', entrance: 'pop' },
+    karaoke: { activeColor: '#FF6B35', entrance: 'slide-up' },
+    tiktok: {
+        entrance: 'pop',
+        fontFamily: 'Poppins',
+        fontSize: DESIRED_FONT_SIZE,
+        fontWeight: 900,
+        activeColor: TIKTOK_HIGHLIGHT_COLOR,
+        strokeWidth: 14,
+        position: 'center',
+        maxWidth: 85,
+    },
+};
+
+function resolveAppearance(style: CaptionStyle, appearance: CaptionAppearance): ResolvedAppearance {
+    const defined = Object.fromEntries(
+        Object.entries(appearance).filter(([, value]) => value !== undefined),
+    ) as Partial<ResolvedAppearance>;
+    return { ...DEFAULT_APPEARANCE, ...STYLE_APPEARANCE[style], ...defined };
+}
+
+// Opacity and transform for the page entrance/exit, driven by the frame so every render matches
+function entranceStyle(entrance: Entrance, enterProgress: number, exitProgress: number): React.CSSProperties {
+    const opacity = Math.min(enterProgress, 1 - exitProgress);
+
+    switch (entrance) {
+        case 'pop':
+            return {
+                opacity,
+                transform: makeTransform([
+                    scale(interpolate(enterProgress, [0, 1], [0.6, 1]) * interpolate(exitProgress, [0, 1], [1, 0.8])),
+                ]),
+            };
+        case 'slide-up':
+            return {
+                opacity,
+                transform: makeTransform([
+                    translateY(interpolate(enterProgress, [0, 1], [40, 0]) - interpolate(exitProgress, [0, 1], [0, 20])),
+                ]),
+            };
+        case 'fade':
+            return { opacity };
+        case 'none':
+            return {};
+    }
+}
+
+// Positions the caption and applies font, stroke, width, background pill and entrance; pages only color their words
+const CaptionBox: React.FC<{
+    appearance: ResolvedAppearance;
+    enterProgress: number;
+    exitProgress: number;
+    fontSize?: number;
+    style?: React.CSSProperties;
+    label?: string;
+    children: React.ReactNode;
+}> = ({ appearance, enterProgress, exitProgress, fontSize, style, label, children }) => {
+    const { position, safeAreaOffset, background } = appearance;
 
     return (
-        <AbsoluteFill className="justify-end items-center pb-32">
+        <AbsoluteFill
+            style={{
+                justifyContent: position === 'top' ? 'flex-start' : position === 'center' ? 'center' : 'flex-end',
+                alignItems: 'center',
+                paddingTop: position === 'top' ? safeAreaOffset : 0,
+                paddingBottom: position === 'bottom' ? safeAreaOffset : 0,
+            }}
+        >
             <div
                 style={{
-                    fontSize: 72,
-                    fontWeight: 'bold',
+                    fontFamily: appearance.fontFamily,
+                    fontSize: fontSize ?? appearance.fontSize,
+                    fontWeight: appearance.fontWeight,
+                    color: appearance.textColor,
                     textAlign: 'center',
                     whiteSpace: 'pre-wrap',
-                    maxWidth: '80%',
-                    WebkitTextStroke: '3px black',
+                    maxWidth: `${appearance.maxWidth}%`,
+                    WebkitTextStroke: `${appearance.strokeWidth}px ${appearance.strokeColor}`,
                     paintOrder: 'stroke',
+                    ...(background
+                        ? {
+                            backgroundColor: background.color,
+                            padding: `${background.paddingY ?? 12}px ${background.paddingX ?? 32}px`,
+                            borderRadius: background.borderRadius ?? 24,
+                        }
+                        : {}),
+                    ...entranceStyle(appearance.entrance, enterProgress, exitProgress),
+                    ...style,
                 }}
             >
-                {page.tokens.map((token) => {
-                    const isActive = token.fromMs <= absoluteTimeMs && token.toMs > absoluteTimeMs;
-                    return (
-                        <span
-                            key={token.fromMs}
-                            style={{ color: isActive ? '#39E508' : 'white' }}
-                        >
-                            {token.text}
-                        </span>
-                    );
-                })}
+                {label ? (
+                    <div
+                        style={{
+                            fontSize: '0.4em',
+                            color: appearance.activeColor,
+                            textTransform: 'uppercase',
+                            letterSpacing: '0.08em',
+                        }}
+                    >
+                        {label}
+                    </div>
+                ) : null}
+                {children}
             </div>
         </AbsoluteFill>
     );
 };
 
+// Emphasis look: scaled words grow by EMPHASIS_SCALE, shaking words jitter sideways while spoken
+const EMPHASIS_SCALE = 1.2;
+const SHAKE_PX = 6;
+const SHAKES_PER_SECOND = 10;
+const LOW_CONFIDENCE_TINT = 'rgba(255, 59, 48, 0.55)';
+
+// One spoken word. The page gives its base look (color, bounce scale, karaoke fill); emphasis and
+// emoji go on top. Spaces around the word stay outside it so underlines and emoji hug the text.
+const CaptionWord: React.FC<{
+    text: string;
+    fromMs: number;
+    toMs: number;
+    timeMs: number; // current time on the captions' clock
+    emphasis: CaptionEmphasis | undefined;
+    defaultEmphasisColor: string; // for color/underline rules without their own color
+    lowConfidence?: number; // the word's confidence, when debugConfidence flags it
+    baseScale?: number;
+    style?: React.CSSProperties;
+}> = ({ text, fromMs, toMs, timeMs, emphasis, defaultEmphasisColor, lowConfidence, baseScale = 1, style }) => {
+    const { fps } = useVideoConfig();
+    const word = text.trim();
+    const leading = text.slice(0, text.length - text.trimStart().length);
+    const trailing = text.slice(text.trimEnd().length);
+    const isActive = fromMs <= timeMs && toMs > timeMs;
+    const effect = emphasis?.effect;
+    const emphasisColor = emphasis?.color ?? defaultEmphasisColor;
+
+    const wordScale = baseScale * (effect === 'scale' ? EMPHASIS_SCALE : 1);
+    const shakeX = effect === 'shake' && isActive
+        ? Math.sin(((timeMs - fromMs) / 1000) * SHAKES_PER_SECOND * 2 * Math.PI) * SHAKE_PX
+        : 0;
+    const emojiProgress = emphasis?.emoji && timeMs >= fromMs
+        ? spring({ frame: ((timeMs - fromMs) / 1000) * fps, fps, config: { damping: 10, stiffness: 200 } })
+        : 0;
+
+    const wordSpan = (
+        <span
+            style={{
+                ...style,
+                ...(effect === 'color' ? { color: emphasisColor } : {}),
+                ...(effect === 'underline'
+                    ? {
+                        textDecorationLine: 'underline',
+                        textDecorationColor: emphasisColor,
+                        textDecorationThickness: '0.08em',
+                        textUnderlineOffset: '0.12em',
+                    }
+                    : {}),
+                ...(wordScale !== 1 || shakeX !== 0 || emphasis?.emoji
+                    ? {
+                        display: 'inline-block',
+                        position: 'relative',
+                        transform: makeTransform([scale(wordScale), translateX(shakeX)]),
+                    }
+                    : {}),
+            }}
+        >
+            {word}
+            {emphasis?.emoji && emojiProgress > 0 ? (
+                <span
+                    style={{
+                        position: 'absolute',
+                        left: '100%',
+                        bottom: '60%',
+                        fontSize: '0.7em',
+                        lineHeight: 1,
+                        WebkitTextStroke: 0,
+                        WebkitTextFillColor: 'initial',
+                        transform: makeTransform([scale(emojiProgress)]),
+                    }}
+                >
+                    {emphasis.emoji}
+                </span>
+            ) : null}
+        </span>
+    );
+
+    return (
+        <>
+            {leading}
+            {lowConfidence === undefined ? wordSpan : (
+                // Studio-only marker; the tint sits behind the word so it also shows under karaoke's clipped fill
+                <span
+                    title={`confidence ${lowConfidence.toFixed(2)}`}
+                    style={{ backgroundColor: LOW_CONFIDENCE_TINT, borderRadius: '0.15em' }}
+                >
+                    {wordSpan}
+                </span>
+            )}
+            {trailing}
+        </>
+    );
+};
+
+// --- Style 1: Highlight (word turns green when spoken) ---
+const HighlightPage: React.FC<PageProps> = ({
+    page, enterProgress, exitProgress, appearance, emphasis, lowConfidence, speakerName,
+}) => {
+    const frame = useCurrentFrame();
+    const { fps } = useVideoConfig();
+    const currentTimeMs = (frame / fps) * 1000;
+    const absoluteTimeMs = page.startMs + currentTimeMs;
+
+    return (
+        <CaptionBox
+            appearance={appearance}
+            enterProgress={enterProgress}
+            exitProgress={exitProgress}
+            label={speakerName}
+        >
+            {page.tokens.map((token) => {
+                const isActive = token.fromMs <= absoluteTimeMs && token.toMs > absoluteTimeMs;
+                return (
+                    <CaptionWord
+                        key={token.fromMs}
+                        text={token.text}
+                        fromMs={token.fromMs}
+                        toMs={token.toMs}
+                        timeMs={absoluteTimeMs}
+                        emphasis={emphasis.get(tokenKey(token))}
+                        defaultEmphasisColor={appearance.activeColor}
+                        lowConfidence={lowConfidence.get(tokenKey(token))}
+                        style={{ color: isActive ? appearance.activeColor : appearance.textColor }}
+                    />
+                );
+            })}
+        </CaptionBox>
+    );
+};
+
+// Springs past 1.3x and settles when the word starts; frame-driven, since CSS transitions don't render
+const BOUNCE_SCALE = 1.3;
+const bounceScale = (msSinceWordStart: number, fps: number) => {
+    const progress = spring({
+        frame: (msSinceWordStart / 1000) * fps,
+        fps,
+        config: { damping: 8, stiffness: 250 },
+    });
+    return interpolate(progress, [0, 1], [1, BOUNCE_SCALE]);
+};
+
 // --- Style 2: Bounce (active word scales up) ---
-const BouncePage: React.FC<{ page: TikTokPageType; enterProgress: number }> = ({ page }) => {
+const BouncePage: React.FC<PageProps> = ({
+    page, enterProgress, exitProgress, appearance, emphasis, lowConfidence, speakerName,
+}) => {
     const frame = useCurrentFrame();
     const { fps } = useVideoConfig();
     const currentTimeMs = (frame / fps) * 1000;
     const absoluteTimeMs = page.startMs + currentTimeMs;
 
     return (
-        <AbsoluteFill className="justify-end items-center pb-32">
-            <div
-                style={{
-                    fontSize: 72,
-                    fontWeight: 'bold',
-                    textAlign: 'center',
-                    whiteSpace: 'pre-wrap',
-                    maxWidth: '80%',
-                    WebkitTextStroke: '3px black',
-                    paintOrder: 'stroke',
-                }}
-            >
-                {page.tokens.map((token) => {
-                    const isActive = token.fromMs <= absoluteTimeMs && token.toMs > absoluteTimeMs;
-                    return (
-                        <span
-                            key={token.fromMs}
-                            style={{
-                                color: isActive ? '#FFD700' : 'white',
-                                display: 'inline-block',
-                                transform: isActive ? 'scale(1.3)' : 'scale(1)',
-                                transition: 'transform 0.1s',
-                            }}
-                        >
-                            {token.text}
-                        </span>
-                    );
-                })}
-            </div>
-        </AbsoluteFill>
+        <CaptionBox
+            appearance={appearance}
+            enterProgress={enterProgress}
+            exitProgress={exitProgress}
+            label={speakerName}
+        >
+            {page.tokens.map((token) => {
+                const isActive = token.fromMs <= absoluteTimeMs && token.toMs > absoluteTimeMs;
+                return (
+                    <CaptionWord
+                        key={token.fromMs}
+                        text={token.text}
+                        fromMs={token.fromMs}
+                        toMs={token.toMs}
+                        timeMs={absoluteTimeMs}
+                        emphasis={emphasis.get(tokenKey(token))}
+                        defaultEmphasisColor={appearance.activeColor}
+                        lowConfidence={lowConfidence.get(tokenKey(token))}
+                        baseScale={isActive ? bounceScale(absoluteTimeMs - token.fromMs, fps) : 1}
+                        style={{
+                            color: isActive ? appearance.activeColor : appearance.textColor,
+                            display: 'inline-block',
+                        }}
+                    />
+                );
+            })}
+        </CaptionBox>
     );
 };
 
 // --- Style 3: Karaoke (progressive fill left-to-right per word) ---
-const KaraokePage: React.FC<{ page: TikTokPageType; enterProgress: number }> = ({ page }) => {
+const KaraokePage: React.FC<PageProps> = ({
+    page, enterProgress, exitProgress, appearance, emphasis, lowConfidence, speakerName,
+}) => {
     const frame = useCurrentFrame();
     const { fps } = useVideoConfig();
     const currentTimeMs = (frame / fps) * 1000;
     const absoluteTimeMs = page.startMs + currentTimeMs;
 
     return (
-        <AbsoluteFill className="justify-end items-center pb-32">
-            <div
-                style={{
-                    fontSize: 72,
-                    fontWeight: 'bold',
-                    textAlign: 'center',
-                    whiteSpace: 'pre-wrap',
-                    maxWidth: '80%',
-                    WebkitTextStroke: '3px black',
-                    paintOrder: 'stroke',
-                }}
-            >
-                {page.tokens.map((token) => {
-                    const isPast = token.toMs <= absoluteTimeMs;
-                    const isActive = token.fromMs <= absoluteTimeMs && token.toMs > absoluteTimeMs;
-                    let progress = 0;
-                    if (isPast) progress = 100;
-                    else if (isActive) {
-                        const duration = token.toMs - token.fromMs;
-                        progress = duration > 0
-                            ? ((absoluteTimeMs - token.fromMs) / duration) * 100
-                            : 100;
-                    }
+        <CaptionBox
+            appearance={appearance}
+            enterProgress={enterProgress}
+            exitProgress={exitProgress}
+            label={speakerName}
+        >
+            {page.tokens.map((token) => {
+                const isPast = token.toMs <= absoluteTimeMs;
+                const isActive = token.fromMs <= absoluteTimeMs && token.toMs > absoluteTimeMs;
+                let progress = 0;
+                if (isPast) progress = 100;
+                else if (isActive) {
+                    const duration = token.toMs - token.fromMs;
+                    progress = duration > 0
+                        ? ((absoluteTimeMs - token.fromMs) / duration) * 100
+                        : 100;
+                }
+                // The text itself is transparent, so a color emphasis changes the fill instead
+                const wordEmphasis = emphasis.get(tokenKey(token));
+                const fillColor = wordEmphasis?.effect === 'color'
+                    ? wordEmphasis.color ?? appearance.activeColor
+                    : appearance.activeColor;
 
-                    return (
-                        <span
-                            key={token.fromMs}
-                            style={{
-                                color: 'white',
-                                backgroundImage: `linear-gradient(90deg, #FF6B35 ${progress}%, white ${progress}%)`,
-                                WebkitBackgroundClip: 'text',
-                                WebkitTextFillColor: 'transparent',
-                                backgroundClip: 'text',
-                            }}
-                        >
-                            {token.text}
-                        </span>
-                    );
-                })}
-            </div>
-        </AbsoluteFill>
+                return (
+                    <CaptionWord
+                        key={token.fromMs}
+                        text={token.text}
+                        fromMs={token.fromMs}
+                        toMs={token.toMs}
+                        timeMs={absoluteTimeMs}
+                        emphasis={wordEmphasis}
+                        defaultEmphasisColor={appearance.activeColor}
+                        lowConfidence={lowConfidence.get(tokenKey(token))}
+                        style={{
+                            color: appearance.textColor,
+                            backgroundImage: `linear-gradient(90deg, ${fillColor} ${progress}%, ${appearance.textColor} ${progress}%)`,
+                            WebkitBackgroundClip: 'text',
+                            WebkitTextFillColor: 'transparent',
+                            backgroundClip: 'text',
+                        }}
+                    />
+                );
+            })}
+        </CaptionBox>
     );
 };
 
-// --- Style 4: TikTok (bold uppercase, scale+slide enter, green highlight) ---
-const ENTER_ANIMATION_FRAMES = 5;
-const DESIRED_FONT_SIZE = 120;
-const TIKTOK_HIGHLIGHT_COLOR = '#39E508';
-
-const TikTokStylePage: React.FC<{ page: TikTokPageType; enterProgress: number }> = ({ page }) => {
-    const { width } = useVideoConfig();
+// --- Style 4: TikTok (bold uppercase, pop enter, green highlight) ---
+const TikTokStylePage: React.FC<PageProps> = ({
+    page, enterProgress, exitProgress, appearance, emphasis, lowConfidence, speakerName,
+}) => {
+    const frame = useCurrentFrame();
+    const { fps, width } = useVideoConfig();
+    const absoluteTimeMs = page.startMs + (frame / fps) * 1000;
+    const horizontalPadding = appearance.background ? (appearance.background.paddingX ?? 32) * 2 : 0;
 
     const fittedText = fitText({
-        fontFamily: 'Poppins',
+        fontFamily: appearance.fontFamily,
+        fontWeight: appearance.fontWeight,
         text: page.text.trim(),
-        withinWidth: width * 0.85,
+        withinWidth: width * (appearance.maxWidth / 100) - horizontalPadding,
         textTransform: 'uppercase',
     });
 
-    const fontSize = Math.min(DESIRED_FONT_SIZE, fittedText.fontSize);
+    const fontSize = Math.min(appearance.fontSize, fittedText.fontSize);
 
     return (
-        <AbsoluteFill
-            style={{
-                justifyContent: 'center',
-                alignItems: 'center',
-            }}
+        <CaptionBox
+            appearance={appearance}
+            enterProgress={enterProgress}
+            exitProgress={exitProgress}
+            fontSize={fontSize}
+            style={{ textTransform: 'uppercase', color: appearance.activeColor }}
+            label={speakerName}
         >
-            <div
-                style={{
-                    fontSize,
-                    fontFamily: 'Poppins',
-                    fontWeight: 900,
-                    textTransform: 'uppercase',
-                    color: TIKTOK_HIGHLIGHT_COLOR,
-                    WebkitTextStroke: '14px black',
-                    paintOrder: 'stroke',
-                    textAlign: 'center',
-                }}
-            >
-                {page.text.trim()}
-            </div>
-        </AbsoluteFill>
+            {page.tokens.map((token) => (
+                <CaptionWord
+                    key={token.fromMs}
+                    text={token.text}
+                    fromMs={token.fromMs}
+                    toMs={token.toMs}
+                    timeMs={absoluteTimeMs}
+                    emphasis={emphasis.get(tokenKey(token))}
+                    // Every word here is already activeColor, so emphasis falls back to the plain text color
+                    defaultEmphasisColor={appearance.textColor}
+                    lowConfidence={lowConfidence.get(tokenKey(token))}
+                />
+            ))}
+        </CaptionBox>
     );
 };
 
-const PAGE_COMPONENTS: Record<CaptionStyle, React.FC<{ page: TikTokPageType; enterProgress: number }>> = {
+const PAGE_COMPONENTS: Record<CaptionStyle, React.FC<PageProps>> = {
     highlight: HighlightPage,
     bounce: BouncePage,
     karaoke: KaraokePage,
     tiktok: TikTokStylePage,
 };
 
-const EnterAnimationWrapper: React.FC<{ children: (enterProgress: number) => React.ReactNode }> = ({ children }) => {
+const EnterAnimationWrapper: React.FC<{
+    durationInFrames: number;
+    exits: boolean;
+    children: (enterProgress: number, exitProgress: number) => React.ReactNode;
+}> = ({ durationInFrames, exits, children }) => {
     const frame = useCurrentFrame();
-    const enterProgress = interpolate(frame, [0, ENTER_ANIMATION_FRAMES], [0, 1], {
-        extrapolateRight: 'clamp',
+    const { fps } = useVideoConfig();
+    const enterProgress = spring({
+        frame,
+        fps,
+        config: { damping: 200 },
+        durationInFrames: ENTER_ANIMATION_FRAMES,
     });
-    return <>{children(enterProgress)}</>;
+    const exitProgress = exits
+        ? spring({
+            frame: frame - (durationInFrames - EXIT_ANIMATION_FRAMES),
+            fps,
+            config: { damping: 200 },
+            durationInFrames: EXIT_ANIMATION_FRAMES,
+        })
+        : 0;
+    return <>{children(enterProgress, exitProgress)}</>;
 };
 
-export const Captions0: React.FC<Captions0Props> = ({ captions, style }) => {
-    const { fps } = useVideoConfig();
+export const Captions0: React.FC<Captions0Props> = ({
+    captions,
+    style,
+    emphasis,
+    speakers,
+    debugConfidence = false,
+    confidenceThreshold = DEFAULT_CONFIDENCE_THRESHOLD,
+    ...appearanceProps
+}) => {
+    const { fps, width } = useVideoConfig();
+    const appearance = resolveAppearance(style, appearanceProps);
+    // The default is a generic family the browser already has
+    const fontReady = useGoogleFont(appearance.fontFamily === DEFAULT_FONT_FAMILY ? undefined : appearance.fontFamily);
+    const { pagination, fontFamily, fontSize, fontWeight, maxWidth, maxLines, maxPageDurationMs, background, strokeWidth } = appearance;
 
+    // A page never mixes speakers, so each speaker's words are paged on their own
     const pages = useMemo(() => {
-        if (style === 'tiktok') {
-            return chunkCaptionsIntoPages(captions, TIKTOK_WORDS_PER_PAGE);
+        if (pagination === 'width' && !fontReady) {
+            // Words are measured once the font is in; until then nothing is shown anyway
+            return [];
+        }
+        if (pagination === 'time' && style !== 'tiktok') {
+            return paginateCaptionsByTime(captions, SWITCH_CAPTIONS_EVERY_MS);
         }
-        return createTikTokStyleCaptions({
-            captions,
-            combineTokensWithinMilliseconds: SWITCH_CAPTIONS_EVERY_MS,
-        }).pages;
-    }, [captions, style]);
+        return splitAtSpeakerChanges(captions).flatMap((run) => {
+            if (pagination === 'width') {
+                const horizontalPadding = background ? (background.paddingX ?? 32) * 2 : 0;
+                return paginateCaptionsByWidth(run, {
+                    fontFamily,
+                    fontSize,
+                    fontWeight,
+                    uppercase: style === 'tiktok',
+                    maxLineWidth: width * (maxWidth / 100) - horizontalPadding - strokeWidth * 2,
+                    maxLines,
+                    maxPageDurationMs,
+                });
+            }
+            return chunkCaptionsIntoPages(run, TIKTOK_WORDS_PER_PAGE);
+        });
+    }, [
+        captions, style, pagination, fontReady, fontFamily, fontSize, fontWeight,
+        maxWidth, maxLines, maxPageDurationMs, background, strokeWidth, width,
+    ]);
+
+    const emphasizedWords = useMemo(() => matchEmphasis(captions, emphasis), [captions, emphasis]);
+    const speakersByToken = useMemo(() => getSpeakersByToken(captions), [captions]);
+
+    // Doubtful words are only marked while editing in the Studio, never in a render
+    const showConfidence = debugConfidence && getRemotionEnvironment().isStudio;
+    const lowConfidence = useMemo(() => mapByTokenKey(captions, (caption) =>
+        showConfidence && caption.confidence !== null && caption.confidence < confidenceThreshold
+            ? caption.confidence
+            : undefined,
+    ), [captions, showConfidence, confidenceThreshold]);
 
     const PageComponent = PAGE_COMPONENTS[style];
+    if (!fontReady) return null;
 
     return (
         <AbsoluteFill>
@@ -247,10 +575,33 @@ export const Captions0: React.FC<Captions0Props> = ({ captions, style }) => {
 
                 if (durationInFrames <= 0) return null;
 
+                // Pages that hand straight over to the next one don't fade out first
+                const exits = !nextPage || nextPage.startMs - pageEndMs > (EXIT_ANIMATION_FRAMES / fps) * 1000;
+
+                const speakerId = page.tokens[0] ? speakersByToken.get(tokenKey(page.tokens[0])) : undefined;
+                const speaker = speakerId !== undefined ? speakers?.[speakerId] : undefined;
+                const pageAppearance = speaker
+                    ? {
+                        ...appearance,
+                        textColor: speaker.textColor ?? appearance.textColor,
+                        activeColor: speaker.activeColor ?? appearance.activeColor,
+                    }
+                    : appearance;
+
                 return (
                     <Sequence key={index} from={Math.round(startFrame)} durationInFrames={durationInFrames}>
-                        <EnterAnimationWrapper>
-                            {(enterProgress) => <PageComponent page={page} enterProgress={enterProgress} />}
+                        <EnterAnimationWrapper durationInFrames={durationInFrames} exits={exits}>
+                            {(enterProgress, exitProgress) => (
+                                <PageComponent
+                                    page={page}
+                                    enterProgress={enterProgress}
+                                    exitProgress={exitProgress}
+                                    appearance={pageAppearance}
+                                    emphasis={emphasizedWords}
+                                    lowConfidence={lowConfidence}
+                                    speakerName={speaker?.name}
+                                />
+                            )}
                         </EnterAnimationWrapper>
                     </Sequence>
                 );
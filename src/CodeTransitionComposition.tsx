@@ -8,6 +8,7 @@ import { tabSize, calculateVerticalPadding, calculateFontSize, calculateCodeHeig
 // const themeColors = await getThemeColors(theme);
 export type Props = {
     steps: HighlightedCode[];
+    stepDurations?: number[]; // frames per step, from calculateMetadata
     themeColors: ThemeColors | null;
     codeWidth: number | null;
     language?: string;
@@ -18,6 +19,7 @@ export type Props = {
 
 export const MainComposition: React.FC<Props> = ({
     steps,
+    stepDurations,
     title,
     themeColors,
     codeWidth,
@@ -33,7 +35,7 @@ export const MainComposition: React.FC<Props> = ({
     }
 
     const { durationInFrames } = useVideoConfig();
-    const stepDuration = durationInFrames / steps.length;
+    const evenStepDuration = durationInFrames / steps.length;
 
     // Calculate max characters for dynamic font sizing
     const maxCharacters = useMemo(() => {
@@ -109,7 +111,10 @@ export const MainComposition: React.FC<Props> = ({
                                     <Series.Sequence
                                         key={index}
                                         layout="none"
-                                        durationInFrames={stepDuration}
+                                        // The last step stays up until the end, e.g. through a MasterSequence transition out
+                                        durationInFrames={index === steps.length - 1
+                                            ? Infinity
+                                            : stepDurations?.[index] ?? evenStepDuration}
                                         name={step.meta}
                                     >
 
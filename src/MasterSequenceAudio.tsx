@@ -0,0 +1,111 @@
+import React from "react";
+import { Audio, interpolate, Sequence, staticFile, useVideoConfig } from "remotion";
+import type { AudioTrack, MusicTrack, ShotAudio } from "./compositionManifest";
+
+const DEFAULT_DUCKING_VOLUME = 0.25;
+const DEFAULT_DUCKING_FADE_SECONDS = 0.5;
+
+// Paths are looked up in public/, URLs are played as they are
+export const resolveAudioSrc = (src: string) => (/^https?:\/\//.test(src) ? src : staticFile(src));
+
+// Where the track sits in the video, in frames
+const getTrackWindow = (track: AudioTrack, fps: number, videoDurationInFrames: number) => {
+    const startFrame = Math.round((track.offsetSeconds ?? 0) * fps);
+    const durationInFrames = track.durationSeconds !== undefined
+        ? Math.round(track.durationSeconds * fps)
+        : videoDurationInFrames - startFrame;
+    return { startFrame, durationInFrames };
+};
+
+// Track volume with its fade in/out, for a frame relative to the track start
+const fadedVolume = (track: AudioTrack, frame: number, durationInFrames: number, fps: number) => {
+    const fadeInFrames = Math.round((track.fadeInSeconds ?? 0) * fps);
+    const fadeOutFrames = Math.round((track.fadeOutSeconds ?? 0) * fps);
+    const fadeIn = fadeInFrames > 0
+        ? interpolate(frame, [0, fadeInFrames], [0, 1], { extrapolateLeft: "clamp", extrapolateRight: "clamp" })
+        : 1;
+    const fadeOut = fadeOutFrames > 0
+        ? interpolate(frame, [durationInFrames - fadeOutFrames, durationInFrames], [1, 0], { extrapolateLeft: "clamp", extrapolateRight: "clamp" })
+        : 1;
+    return (track.volume ?? 1) * Math.min(fadeIn, fadeOut);
+};
+
+const TrackAudio: React.FC<{
+    track: AudioTrack;
+    // extra gain for a frame relative to the start of the video
+    gain?: (videoFrame: number) => number;
+}> = ({ track, gain }) => {
+    const { fps, durationInFrames: videoDurationInFrames } = useVideoConfig();
+    const { startFrame, durationInFrames } = getTrackWindow(track, fps, videoDurationInFrames);
+    if (durationInFrames <= 0) return null;
+
+    return (
+        <Sequence from={startFrame} durationInFrames={durationInFrames} layout="none">
+            <Audio
+                src={resolveAudioSrc(track.src)}
+                loop={track.loop}
+                volume={(frame) => fadedVolume(track, frame, durationInFrames, fps) * (gain ? gain(startFrame + frame) : 1)}
+            />
+        </Sequence>
+    );
+};
+
+// Music gain for a frame relative to the start of the video: it ramps down over the first fadeFrames
+// of the narration and back up over its last ones, so both edges are heard even when the narration
+// spans the whole video. Narrations too short for a ramp leave the music level.
+const duckingGain = (
+    narrationStart: number,
+    narrationDuration: number,
+    duckVolume: number,
+    fadeFrames: number,
+): ((videoFrame: number) => number) | undefined => {
+    const rampFrames = Math.min(fadeFrames, Math.floor((narrationDuration - 1) / 2));
+    if (rampFrames < 1) return undefined;
+
+    const narrationEnd = narrationStart + narrationDuration;
+    return (videoFrame) => interpolate(
+        videoFrame,
+        [narrationStart, narrationStart + rampFrames, narrationEnd - rampFrames, narrationEnd],
+        [1, duckVolume, duckVolume, 1],
+        { extrapolateLeft: "clamp", extrapolateRight: "clamp" },
+    );
+};
+
+// Narration plus background music; the music dips while the narration plays
+export const MasterSequenceAudio: React.FC<{
+    narration?: AudioTrack | null;
+    music?: MusicTrack | null;
+}> = ({ narration, music }) => {
+    const { fps, durationInFrames: videoDurationInFrames } = useVideoConfig();
+
+    let duck: ((videoFrame: number) => number) | undefined;
+    if (music && narration && music.ducking !== false) {
+        const { startFrame, durationInFrames } = getTrackWindow(narration, fps, videoDurationInFrames);
+        const duckVolume = music.ducking?.volume ?? DEFAULT_DUCKING_VOLUME;
+        const fadeFrames = Math.max(1, Math.round((music.ducking?.fadeSeconds ?? DEFAULT_DUCKING_FADE_SECONDS) * fps));
+        duck = duckingGain(startFrame, durationInFrames, duckVolume, fadeFrames);
+    }
+
+    return (
+        <>
+            {narration && <TrackAudio track={narration} />}
+            {music && <TrackAudio track={music} gain={duck} />}
+        </>
+    );
+};
+
+// A shot's own sound effects; rendered inside the shot's sequence, so offsets count from the shot start
+export const ShotAudioClips: React.FC<{ clips: ShotAudio[] }> = ({ clips }) => (
+    <>
+        {clips.map((clip, i) => (
+            <Sequence key={`${clip.src}-${i}`} from={clip.offsetInFrames ?? 0} layout="none">
+                <Audio
+                    src={resolveAudioSrc(clip.src)}
+                    volume={() => clip.volume ?? 1}
+                    trimBefore={clip.trimBeforeInFrames}
+                    trimAfter={clip.trimAfterInFrames}
+                />
+            </Sequence>
+        ))}
+    </>
+);
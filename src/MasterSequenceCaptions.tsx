@@ -0,0 +1,39 @@
+import React, { useMemo } from "react";
+import { AbsoluteFill, Sequence, useCurrentFrame, useVideoConfig } from "remotion";
+import { Captions0 } from "./Captions0";
+import { CaptionsOverlay, wordTimestampsToCaptions } from "./compositionManifest";
+import type { Shot } from "./MasterSequenceComp";
+import type { MasterSequenceTimeline } from "./masterSequenceTimeline";
+
+// Captions0 shots already show the words, so they hide the overlay unless they opt back in
+const hidesCaptions = (shot: Shot) => shot.hideCaptions ?? shot.compositionId === "Captions0";
+
+// One Captions0 layer across the whole video. Word times are narration seconds, so the
+// layer starts with the narration track instead of following each shot's own offset.
+export const MasterSequenceCaptions: React.FC<{
+    captions: CaptionsOverlay;
+    shots: Shot[];
+    timeline: MasterSequenceTimeline;
+    narrationOffsetSeconds?: number;
+}> = ({ captions, shots, timeline, narrationOffsetSeconds = 0 }) => {
+    const frame = useCurrentFrame();
+    const { fps } = useVideoConfig();
+    const { words, style, ...appearance } = captions;
+    const captionList = useMemo(() => wordTimestampsToCaptions(words), [words]);
+
+    // A shot's own frames run up to the next shot's start; its outgoing transition counts as the next shot
+    const hidden = timeline.entries.some((entry, i) => {
+        if (!hidesCaptions(shots[i])) return false;
+        const endFrame = timeline.entries[i + 1]?.startFrame ?? entry.endFrame;
+        return frame >= entry.startFrame && frame < endFrame;
+    });
+    if (hidden) return null;
+
+    return (
+        <AbsoluteFill>
+            <Sequence from={Math.round(narrationOffsetSeconds * fps)}>
+                <Captions0 captions={captionList} style={style} {...appearance} />
+            </Sequence>
+        </AbsoluteFill>
+    );
+};
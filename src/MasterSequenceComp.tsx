@@ -1,27 +1,99 @@
 import { Series, Sequence, continueRender, delayRender } from 'remotion';
 import { compositionIdToEntry, RegistryEntry } from './compositionRegistry';
 import React from 'react';
-import { Audio, staticFile } from 'remotion';
 // import reactmarkdown component
 import ReactMarkdown from 'react-markdown';
-import { linearTiming, springTiming, TransitionSeries } from "@remotion/transitions";
+import { linearTiming, springTiming, TransitionPresentation, TransitionSeries, TransitionTiming } from "@remotion/transitions";
 import { slide } from "@remotion/transitions/slide";
 import { wipe } from "@remotion/transitions/wipe";
 import { fade } from "@remotion/transitions/fade";
+import { flip } from "@remotion/transitions/flip";
+import { clockWipe } from "@remotion/transitions/clock-wipe";
+import { useVideoConfig } from 'remotion';
+import { z } from 'zod';
+import { getShotNarrationFrames } from './compositionManifest';
+import type { AudioTrack, CaptionsOverlay, MusicTrack, ShotAudio, ShotTransition, Transcript } from './compositionManifest';
+import type { ResolvedTransition } from './masterSequenceTransitions';
+import { computeMasterSequenceTimeline } from './masterSequenceTimeline';
+import { MasterSequenceAudio, ShotAudioClips } from './MasterSequenceAudio';
+import { addSound } from './utils/addSound';
+import { MasterSequenceCaptions } from './MasterSequenceCaptions';
 
 export type Shot = {
     compositionId: string;
     compositionProps: Record<string, unknown>;
     fromFrame: number;
     durationInFrames: number;
+    transition?: ShotTransition; // how this shot enters; seeded default when omitted
+    audio?: ShotAudio[]; // sound effects, offsets relative to the shot start
+    hideCaptions?: boolean; // hide the captions overlay during this shot
 };
 
 export type MasterSequenceProps = {
-    shots: Shot[];
+    shots?: Shot[];
+    transcript?: Transcript; // converted to shots by calculateMasterSequenceMetadata
+    transitionSeed?: string | number;
+    narration?: AudioTrack | null; // the transcript's audio wins when it names one
+    music?: MusicTrack | null;
+    captions?: CaptionsOverlay | null; // drawn over every shot
 };
 
+// Hands the transition's presentation to apply with its own prop type, so kinds with required props
+// (clockWipe's width/height) need no widening to a shared type
+const withBasePresentation = <R,>(
+    transition: ResolvedTransition,
+    width: number,
+    height: number,
+    apply: <T extends Record<string, unknown>>(presentation: TransitionPresentation<T>) => R,
+): R => {
+    switch (transition.type) {
+        case "fade":
+            return apply(fade());
+        case "slide":
+            return apply(slide({ direction: transition.direction }));
+        case "wipe":
+            return apply(wipe({ direction: transition.direction }));
+        case "flip":
+            return apply(flip({ direction: transition.direction }));
+        case "clockWipe":
+            return apply(clockWipe({ width, height }));
+    }
+};
+
+const makeTiming = (transition: ResolvedTransition): TransitionTiming =>
+    transition.timing === "linear"
+        ? linearTiming({ durationInFrames: transition.durationInFrames })
+        : springTiming({
+            config: {
+                damping: 200,
+            },
+            durationInFrames: transition.durationInFrames,
+            durationRestThreshold: 0.001,
+        });
+
+// The transition's sound plays on the entering shot's side
+const renderTransition = (transition: ResolvedTransition, width: number, height: number) =>
+    withBasePresentation(transition, width, height, (presentation) => (
+        transition.sound
+            ? (
+                <TransitionSeries.Transition
+                    presentation={addSound(presentation, transition.sound.src, transition.sound.volume ?? 1)}
+                    timing={makeTiming(transition)}
+                />
+            )
+            : <TransitionSeries.Transition presentation={presentation} timing={makeTiming(transition)} />
+    ));
+
+// Compositions whose schema takes fitDurationInFrames (CodeTransition) stretch to the shot's narration
+const fitsShotLength = (entry: RegistryEntry) =>
+    entry.schema instanceof z.ZodObject && 'fitDurationInFrames' in entry.schema.shape;
+
 // render shot was added to handle the calculateMetadata function for the CodeTransition composition.
-const RenderShot: React.FC<{ entry: RegistryEntry; props: Record<string, unknown> }> = ({ entry, props }) => {
+const RenderShot: React.FC<{ entry: RegistryEntry; props: Record<string, unknown>; narrationFrames: number }> = ({
+    entry,
+    props,
+    narrationFrames,
+}) => {
     const Component: any = entry.component as any;
     const [computedProps, setComputedProps] = React.useState<Record<string, unknown> | null>(null);
     const [handle] = React.useState(() => delayRender());
@@ -31,7 +103,11 @@ const RenderShot: React.FC<{ entry: RegistryEntry; props: Record<string, unknown
         const run = async () => {
             try {
                 if (entry.calculateMetadata) {
-                    const mergedProps = { ...(entry.defaultProps || {}), ...(props || {}) } as any;
+                    const mergedProps = {
+                        ...(entry.defaultProps || {}),
+                        ...(fitsShotLength(entry) ? { fitDurationInFrames: narrationFrames } : {}),
+                        ...(props || {}),
+                    } as any;
                     const meta = await entry.calculateMetadata({ props: mergedProps });
                     if (!cancelled) {
                         setComputedProps(meta?.props ?? mergedProps);
@@ -47,13 +123,17 @@ const RenderShot: React.FC<{ entry: RegistryEntry; props: Record<string, unknown
         return () => {
             cancelled = true;
         };
-    }, [entry, props, handle]);
+    }, [entry, props, narrationFrames, handle]);
 
     if (!computedProps) return null;
     return <Component {...computedProps} durationInFrames={entry.durationInFrames} />;
 };
 
-export const MasterSequenceComp: React.FC<MasterSequenceProps> = ({ shots }) => {
+export const MasterSequenceComp: React.FC<MasterSequenceProps> = ({ shots = [], transitionSeed, narration, music, captions }) => {
+    const { width, height } = useVideoConfig();
+    // shot i starts entering exactly at its fromFrame, whatever the transitions before it
+    const timeline = computeMasterSequenceTimeline(shots, transitionSeed);
+    const narrationFrames = getShotNarrationFrames(shots);
 
     return (
         <>
@@ -61,43 +141,36 @@ export const MasterSequenceComp: React.FC<MasterSequenceProps> = ({ shots }) =>
                 {shots.map((shot: Shot, i: number) => {
                     const key = `shot-${i}`;
                     const entry = compositionIdToEntry[shot.compositionId];
-                    if (!entry) return null;
-                    // randomize show transition
-                    const showTransition = Math.random() > 0.5;
-                    let transitionDuration = 0;
-                    if (showTransition) {
-                        transitionDuration = 15;
-                    }
-                    // this is still not right, cause if I'm showing transition between two shots, both shots need to have transition duration added in them.
+                    const { transition, durationInFrames } = timeline.entries[i];
 
                     return (
-                        <>
-                            {/* TODO: add sound to transition, transitiontime genralize from 15. */}
-                            <TransitionSeries.Sequence key={key} durationInFrames={shot.durationInFrames + transitionDuration}  >
-                                <RenderShot entry={entry} props={shot.compositionProps || {}} />
+                        <React.Fragment key={key}>
+                            {transition && renderTransition(transition, width, height)}
+                            <TransitionSeries.Sequence durationInFrames={durationInFrames}  >
+                                {/* unknown shots keep their slot so later shots stay in sync */}
+                                {entry && (
+                                    <RenderShot
+                                        entry={entry}
+                                        props={shot.compositionProps || {}}
+                                        narrationFrames={narrationFrames[i]}
+                                    />
+                                )}
+                                {shot.audio && <ShotAudioClips clips={shot.audio} />}
                             </TransitionSeries.Sequence>
-                            {/* randomize if i want to show transition or not */}
-                            {showTransition && (
-                                <TransitionSeries.Transition
-                                    presentation={
-                                        [slide, wipe, fade][Math.floor(Math.random() * 3)]()
-                                    }
-                                    // timing={linearTiming({ durationInFrames: 15 })}
-                                    timing={springTiming({
-                                        config: {
-                                            damping: 200,
-                                        },
-                                        durationInFrames: transitionDuration,
-                                        durationRestThreshold: 0.001,
-                                    })}
-                                />
-                            )}
-                        </>
+                        </React.Fragment>
                     );
                 })}
 
             </TransitionSeries>
-            <Audio src={staticFile('p2.mp3')} />
+            {captions && (
+                <MasterSequenceCaptions
+                    captions={captions}
+                    shots={shots}
+                    timeline={timeline}
+                    narrationOffsetSeconds={narration?.offsetSeconds}
+                />
+            )}
+            <MasterSequenceAudio narration={narration} music={music} />
         </>
     );
 };
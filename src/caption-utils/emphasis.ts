@@ -0,0 +1,50 @@
+import type { Caption } from "@remotion/captions";
+import type { CaptionEmphasis } from "../compositionManifest";
+import { mapByTokenKey, TokenKey } from "./token-keys";
+
+// Plain words compare without case or surrounding punctuation: "Remotion," matches "remotion"
+const normalizeWord = (text: string) =>
+    text.trim().toLowerCase().replace(/^[^\p{L}\p{N}]+|[^\p{L}\p{N}]+$/gu, "");
+
+type WordMatcher = (text: string) => boolean;
+
+// The regular expression a "/pattern/flags" word stands for, or null for a plain word.
+// Throws when the pattern doesn't compile.
+export const toEmphasisRegExp = (pattern: string): RegExp | null => {
+    const regex = /^\/(.+)\/([a-z]*)$/.exec(pattern);
+    if (!regex) return null;
+    try {
+        return new RegExp(regex[1], regex[2]);
+    } catch (error) {
+        throw new Error(`Invalid emphasis pattern ${pattern}: ${(error as Error).message}`);
+    }
+};
+
+// "/pattern/flags" is a regular expression tested against the trimmed word; anything else is a plain word
+const toMatcher = (pattern: string): WordMatcher => {
+    const compiled = toEmphasisRegExp(pattern);
+    if (compiled) {
+        return (text) => {
+            compiled.lastIndex = 0;
+            return compiled.test(text.trim());
+        };
+    }
+    const word = normalizeWord(pattern);
+    return (text) => normalizeWord(text) === word;
+};
+
+// Resolve emphasis rules to the emphasized captions, keyed by token (see token-keys.ts).
+// When several rules match a word, the first one wins.
+export const matchEmphasis = (captions: Caption[], rules: CaptionEmphasis[] | undefined): Map<TokenKey, CaptionEmphasis> => {
+    if (!rules || rules.length === 0) return new Map();
+
+    const compiled = rules.map((rule) => ({
+        rule,
+        matchers: (rule.words ?? []).map(toMatcher),
+        indices: new Set(rule.indices ?? []),
+    }));
+
+    return mapByTokenKey(captions, (caption, index) => compiled.find(({ matchers, indices }) =>
+        indices.has(index) || matchers.some((matches) => matches(caption.text)),
+    )?.rule);
+};
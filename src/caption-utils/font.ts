@@ -0,0 +1,61 @@
+import { useEffect, useState } from "react";
+import { cancelRender, continueRender, delayRender } from "remotion";
+import { loadFont as loadAnton } from "@remotion/google-fonts/Anton";
+import { loadFont as loadBebasNeue } from "@remotion/google-fonts/BebasNeue";
+import { loadFont as loadInter } from "@remotion/google-fonts/Inter";
+import { loadFont as loadLato } from "@remotion/google-fonts/Lato";
+import { loadFont as loadMontserrat } from "@remotion/google-fonts/Montserrat";
+import { loadFont as loadOpenSans } from "@remotion/google-fonts/OpenSans";
+import { loadFont as loadOswald } from "@remotion/google-fonts/Oswald";
+import { loadFont as loadPoppins } from "@remotion/google-fonts/Poppins";
+import { loadFont as loadRoboto } from "@remotion/google-fonts/Roboto";
+import type { CaptionFontFamily } from "../compositionManifest";
+
+// One loader per family captionFontFamilySchema allows, all weights of the latin subset
+const FONT_LOADERS: Record<CaptionFontFamily, () => { waitUntilDone: () => Promise<unknown> }> = {
+    Poppins: () => loadPoppins("normal", { subsets: ["latin"] }),
+    Inter: () => loadInter("normal", { subsets: ["latin"] }),
+    Roboto: () => loadRoboto("normal", { subsets: ["latin"] }),
+    Montserrat: () => loadMontserrat("normal", { subsets: ["latin"] }),
+    "Open Sans": () => loadOpenSans("normal", { subsets: ["latin"] }),
+    Lato: () => loadLato("normal", { subsets: ["latin"] }),
+    Oswald: () => loadOswald("normal", { subsets: ["latin"] }),
+    "Bebas Neue": () => loadBebasNeue("normal", { subsets: ["latin"] }),
+    Anton: () => loadAnton("normal", { subsets: ["latin"] }),
+};
+
+const loadedFonts = new Map<CaptionFontFamily, Promise<void>>();
+
+// Load a caption font; each family is only fetched once
+export const loadGoogleFont = (fontFamily: CaptionFontFamily): Promise<void> => {
+    let loading = loadedFonts.get(fontFamily);
+    if (!loading) {
+        loading = FONT_LOADERS[fontFamily]().waitUntilDone().then(() => undefined);
+        loadedFonts.set(fontFamily, loading);
+    }
+    return loading;
+};
+
+// Holds the render until the font is ready; returns false while it is still loading.
+// No family means a font the browser already has, which needs no loading.
+export const useGoogleFont = (fontFamily: CaptionFontFamily | undefined): boolean => {
+    // Props don't change during a render, so the first family is the one a render waits for
+    const [handle] = useState(() => (fontFamily ? delayRender(`Loading font ${fontFamily}`) : null));
+    const [loadedFamily, setLoadedFamily] = useState<CaptionFontFamily | null>(null);
+
+    useEffect(() => {
+        if (!fontFamily) {
+            if (handle !== null) continueRender(handle);
+            return;
+        }
+
+        loadGoogleFont(fontFamily)
+            .then(() => {
+                setLoadedFamily(fontFamily);
+                if (handle !== null) continueRender(handle);
+            })
+            .catch((error) => cancelRender(error));
+    }, [fontFamily, handle]);
+
+    return !fontFamily || loadedFamily === fontFamily;
+};
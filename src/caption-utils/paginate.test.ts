@@ -0,0 +1,57 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import wordTimestamps from "../../public/wordlevel-timestamp.json";
+import { wordTimestampsToCaptions } from "../compositionManifest";
+import { captionsToPage, paginateCaptionsByTime } from "./paginate";
+
+const caption = (text: string, startMs: number, speaker?: string) => ({
+  text,
+  startMs,
+  endMs: startMs + 200,
+  timestampMs: startMs + 100,
+  confidence: null,
+  ...(speaker ? { speaker } : {}),
+});
+
+describe("paginateCaptionsByTime", () => {
+  it("splits a multi-sentence word list into several pages", () => {
+    // wordlevel-timestamp.json style: trailing spaces, 0.3s per word
+    const words = "I made a coding agent. It reads files. It writes code. It runs the tests too."
+      .split(" ")
+      .map((word, index) => ({ word: `${word} `, start: index * 0.3, end: index * 0.3 + 0.3 }));
+    const captions = wordTimestampsToCaptions(words);
+    const pages = paginateCaptionsByTime(captions, 1200);
+
+    assert.ok(pages.length >= 3, `expected several pages, got ${pages.length}`);
+    assert.equal(pages.flatMap((page) => page.tokens).length, captions.length);
+  });
+
+  it("splits the bundled narration", () => {
+    assert.ok(paginateCaptionsByTime(wordTimestampsToCaptions(wordTimestamps), 1200).length > 1);
+  });
+
+  it("pages trailing-space words like leading-space ones", () => {
+    const trailing = [caption("One ", 0), caption("two. ", 1100), caption("Three ", 2000), caption("four ", 2200)];
+    const leading = trailing.map((word) => ({ ...word, text: ` ${word.text.trim()}` }));
+
+    const pages = paginateCaptionsByTime(trailing, 1200);
+
+    assert.deepEqual(pages.map((page) => page.text), ["One two.", "Three four"]);
+    assert.deepEqual(pages, paginateCaptionsByTime(leading, 1200));
+  });
+
+  it("starts a new page when the speaker changes", () => {
+    const pages = paginateCaptionsByTime([caption("Hi", 0, "A"), caption("there", 200, "A"), caption("Hello", 400, "B")], 1200);
+
+    assert.deepEqual(pages.map((page) => page.text), ["Hi there", "Hello"]);
+  });
+});
+
+describe("captionsToPage", () => {
+  it("keeps a leading space on every token but the first", () => {
+    const page = captionsToPage([caption("Hello ", 0), caption("world ", 200)]);
+
+    assert.equal(page.text, "Hello world");
+    assert.deepEqual(page.tokens.map((token) => token.text), ["Hello", " world"]);
+  });
+});
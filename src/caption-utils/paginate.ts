@@ -0,0 +1,104 @@
+import { measureText } from "@remotion/layout-utils";
+import { createTikTokStyleCaptions } from "@remotion/captions";
+import type { Caption, TikTokPage } from "@remotion/captions";
+import type { SpeakerCaption } from "../compositionManifest";
+import { splitAtSpeakerChanges } from "./speakers";
+
+export type WidthPaginationOptions = {
+    fontFamily: string;
+    fontSize: number;
+    fontWeight: number;
+    uppercase: boolean;
+    maxLineWidth: number; // px available for one line
+    maxLines: number;
+    maxPageDurationMs: number;
+};
+
+// A word ending a sentence closes its page, so pages don't straddle sentences
+const ENDS_SENTENCE = /[.!?…]["'”’)]*\s*$/;
+
+// Pages follow the @remotion/captions convention: a leading space marks a word boundary (" world").
+// Word lists with trailing spaces ("world ") or none at all are turned around before paging.
+const withLeadingSpace = <T extends Caption>(captions: T[]): T[] =>
+    captions.map((caption) => ({ ...caption, text: ` ${caption.text.trim()}` }));
+
+// A page doesn't open with the space separating it from the previous page
+const trimPageStart = (page: TikTokPage): TikTokPage => ({
+    ...page,
+    text: page.text.trimStart(),
+    tokens: page.tokens.map((token, index) => (index === 0 ? { ...token, text: token.text.trimStart() } : token)),
+});
+
+// One page holding all of the given words
+export const captionsToPage = (words: Caption[]): TikTokPage => {
+    const spaced = withLeadingSpace(words);
+    return trimPageStart({
+        text: spaced.map((word) => word.text).join(""),
+        startMs: spaced[0].startMs,
+        durationMs: spaced[spaced.length - 1].endMs - spaced[0].startMs,
+        tokens: spaced.map((word) => ({ text: word.text, fromMs: word.startMs, toMs: word.endMs })),
+    });
+};
+
+// Pages of the words spoken within combineTokensWithinMilliseconds of each other; a page never mixes speakers
+export const paginateCaptionsByTime = (captions: SpeakerCaption[], combineTokensWithinMilliseconds: number): TikTokPage[] =>
+    splitAtSpeakerChanges(captions).flatMap((run) => createTikTokStyleCaptions({
+        captions: withLeadingSpace(run),
+        combineTokensWithinMilliseconds,
+    }).pages.map(trimPageStart));
+
+// Pack words into pages of at most maxLines lines that fit maxLineWidth in the given font,
+// starting a new page when the page would run longer than maxPageDurationMs or a sentence ends.
+// Must run in the browser (measureText uses the DOM) after the font has loaded.
+export const paginateCaptionsByWidth = (captions: Caption[], options: WidthPaginationOptions): TikTokPage[] => {
+    const measure = (text: string) =>
+        measureText({
+            text,
+            fontFamily: options.fontFamily,
+            fontSize: options.fontSize,
+            fontWeight: options.fontWeight,
+            textTransform: options.uppercase ? "uppercase" : "none",
+        }).width;
+    const spaceWidth = measure(" ");
+
+    const pages: TikTokPage[] = [];
+    let pageWords: Caption[] = [];
+    let lineCount = 1;
+    let lineWidth = 0;
+
+    const closePage = () => {
+        if (pageWords.length > 0) pages.push(captionsToPage(pageWords));
+        pageWords = [];
+        lineCount = 1;
+        lineWidth = 0;
+    };
+
+    for (const caption of captions) {
+        // Spaces only matter between words, not at a line's ends
+        const wordWidth = measure(caption.text.trim());
+
+        if (pageWords.length > 0 && caption.endMs - pageWords[0].startMs > options.maxPageDurationMs) {
+            closePage();
+        }
+
+        if (pageWords.length > 0 && lineWidth + spaceWidth + wordWidth > options.maxLineWidth) {
+            if (lineCount >= options.maxLines) {
+                closePage();
+            } else {
+                lineCount++;
+                lineWidth = 0;
+            }
+        }
+
+        // A word wider than the line still gets its own line
+        lineWidth += (lineWidth > 0 ? spaceWidth : 0) + wordWidth;
+        pageWords.push(caption);
+
+        if (ENDS_SENTENCE.test(caption.text)) {
+            closePage();
+        }
+    }
+    closePage();
+
+    return pages;
+};
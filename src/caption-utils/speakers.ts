@@ -0,0 +1,20 @@
+import type { SpeakerCaption } from "../compositionManifest";
+import { mapByTokenKey, TokenKey } from "./token-keys";
+
+// Consecutive words by the same speaker; words without a speaker count as one more speaker
+export const splitAtSpeakerChanges = <T extends SpeakerCaption>(captions: T[]): T[][] => {
+    const runs: T[][] = [];
+    for (const caption of captions) {
+        const run = runs[runs.length - 1];
+        if (run && run[0].speaker === caption.speaker) {
+            run.push(caption);
+        } else {
+            runs.push([caption]);
+        }
+    }
+    return runs;
+};
+
+// Speaker of each word, keyed by token (see token-keys.ts)
+export const getSpeakersByToken = (captions: SpeakerCaption[]): Map<TokenKey, string> =>
+    mapByTokenKey(captions, (caption) => caption.speaker);
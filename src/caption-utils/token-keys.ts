@@ -0,0 +1,21 @@
+import type { Caption, TikTokToken } from "@remotion/captions";
+
+// Page tokens don't point back at their caption, so per-word data (emphasis, speaker, confidence)
+// is looked up by start time: a caption's startMs becomes the fromMs of its page token.
+export type TokenKey = number;
+
+export const tokenKey = (token: TikTokToken): TokenKey => token.fromMs;
+
+// A value per caption, keyed for lookup by page token. Captions without a value are left out;
+// when two captions share a start time, the first one's value is kept.
+export const mapByTokenKey = <T extends Caption, V>(
+    captions: T[],
+    valueOf: (caption: T, index: number) => V | undefined,
+): Map<TokenKey, V> => {
+    const values = new Map<TokenKey, V>();
+    captions.forEach((caption, index) => {
+        const value = valueOf(caption, index);
+        if (value !== undefined && !values.has(caption.startMs)) values.set(caption.startMs, value);
+    });
+    return values;
+};
@@ -1,8 +1,9 @@
 import { z } from "zod";
 import { CalculateMetadataFunction } from "remotion";
 import { getThemeColors } from "@code-hike/lighter";
-import { codeTransitionSchema } from "../compositionRegistry";
+import { codeTransitionSchema, compositionManifest } from "../compositionManifest";
 import { processSnippet, CodeStep } from "./process-snippet";
+import { fitStepDurations, fitTransitionDuration, resolveStepDurations } from "./step-durations";
 import { measureText } from "@remotion/layout-utils";
 import {
   fontFamily,
@@ -17,7 +18,14 @@ import { Theme } from "./theme";
 export const calculateMetadata: CalculateMetadataFunction<
   z.infer<typeof codeTransitionSchema>
 > = async ({ props }) => {
-  const { steps, language, theme = "github-dark", transitionDuration = 30 } = props;
+  const {
+    steps,
+    language,
+    theme = "github-dark",
+    transitionDuration = 30,
+    autoStepDuration = false,
+    fitDurationInFrames,
+  } = props;
 
   await waitUntilDone();
   const widthPerCharacter = measureText({
@@ -44,7 +52,16 @@ export const calculateMetadata: CalculateMetadataFunction<
   }
 
 
-  const defaultStepDuration = 90;
+  // calculateMetadata isn't told the fps, so use the registry's
+  const fps = compositionManifest.find((entry) => entry.id === "CodeTransition")?.fps ?? 30;
+  const resolvedDurations = resolveStepDurations(steps, { fps, auto: autoStepDuration, transitionDuration });
+  // A shot too short for the transitions shortens them, so no step is cut off mid-transition
+  const fittedTransitionDuration = fitDurationInFrames
+    ? fitTransitionDuration(transitionDuration, steps.length, fitDurationInFrames)
+    : transitionDuration;
+  const stepDurations = fitDurationInFrames
+    ? fitStepDurations(resolvedDurations, fitDurationInFrames, fittedTransitionDuration)
+    : resolvedDurations;
 
   const themeColors = await getThemeColors(theme);
 
@@ -60,16 +77,17 @@ export const calculateMetadata: CalculateMetadataFunction<
   const minimumWidthApplied = Math.max(minimumWidth, divisibleByTwo);
 
   return {
-    durationInFrames: steps.length * defaultStepDuration,
+    durationInFrames: stepDurations.reduce((sum, frames) => sum + frames, 0),
     width: minimumWidthApplied,
     props: {
       ...props,
 
       steps: highlightedSteps,
+      stepDurations,
       themeColors,
       codeWidth,
       language,
-      transitionDuration,
+      transitionDuration: fittedTransitionDuration,
     },
   };
 };
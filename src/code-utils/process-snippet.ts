@@ -1,6 +1,6 @@
 import { highlight } from "codehike/code";
-import { createTwoslashFromCDN } from "twoslash-cdn";
 import { Theme } from "./theme";
+import { createLocalTwoslash } from "./twoslash";
 import { CompilerOptions, JsxEmit, ModuleKind, ScriptTarget } from "typescript";
 
 const compilerOptions: CompilerOptions = {
@@ -10,9 +10,7 @@ const compilerOptions: CompilerOptions = {
   module: ModuleKind.ESNext,
 };
 
-const twoslash = createTwoslashFromCDN({
-  compilerOptions,
-});
+const twoslash = createLocalTwoslash(compilerOptions);
 
 export interface CodeStep {
   code: string;
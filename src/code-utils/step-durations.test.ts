@@ -0,0 +1,56 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { fitStepDurations, fitTransitionDuration } from "./step-durations";
+
+const sum = (durations: number[]) => durations.reduce((total, frames) => total + frames, 0);
+
+describe("fitStepDurations", () => {
+  it("scales proportionally to exactly totalFrames", () => {
+    const fitted = fitStepDurations([90, 90, 180], 180);
+
+    assert.deepEqual(fitted, [45, 45, 90]);
+  });
+
+  it("never overshoots when one step dwarfs the others", () => {
+    const fitted = fitStepDurations([100, 1, 1, 1], 4);
+
+    assert.deepEqual(fitted, [1, 1, 1, 1]);
+    assert.equal(sum(fitted), 4);
+  });
+
+  it("reserves a frame for every later step", () => {
+    const fitted = fitStepDurations([1, 1, 1, 100], 10);
+
+    assert.equal(sum(fitted), 10);
+    assert.ok(fitted.every((frames) => frames >= 1));
+  });
+
+  it("leaves the durations alone when totalFrames is shorter than the step count", () => {
+    assert.deepEqual(fitStepDurations([1, 1, 1, 100], 3), [1, 1, 1, 100]);
+  });
+
+  it("keeps every step at least minFrames long", () => {
+    const fitted = fitStepDurations([30, 30, 300], 120, 30);
+
+    assert.deepEqual(fitted, [30, 30, 60]);
+  });
+
+  it("leaves the durations alone when minFrames per step doesn't fit", () => {
+    assert.deepEqual(fitStepDurations([30, 30, 300], 80, 30), [30, 30, 300]);
+  });
+});
+
+describe("fitTransitionDuration", () => {
+  it("keeps a transition that every fitted step has room for", () => {
+    assert.equal(fitTransitionDuration(30, 3, 300), 30);
+  });
+
+  it("shrinks the transition to the frames each step gets", () => {
+    assert.equal(fitTransitionDuration(30, 4, 90), 22);
+    assert.deepEqual(fitStepDurations([90, 90, 90, 90], 90, 22), [23, 22, 23, 22]);
+  });
+
+  it("is unchanged when the steps can't be fitted", () => {
+    assert.equal(fitTransitionDuration(30, 4, 3), 30);
+  });
+});
@@ -0,0 +1,77 @@
+// Screen time per CodeTransition step, in frames
+
+export const DEFAULT_STEP_DURATION = 90;
+
+// autoStepDuration: a base to take in the step plus time per changed token, within limits
+const AUTO_BASE_SECONDS = 1.5;
+const AUTO_SECONDS_PER_TOKEN = 0.12;
+const AUTO_MAX_SECONDS = 10;
+
+export type StepTiming = {
+  code: string;
+  durationInFrames?: number;
+  durationSeconds?: number;
+};
+
+const tokenize = (code: string) => code.match(/\w+|[^\s\w]/g) ?? [];
+
+// Tokens added or removed going from one step to the next (LCS diff); the first step counts all of its tokens
+export const countChangedTokens = (previous: string | undefined, next: string): number => {
+  const a = previous === undefined ? [] : tokenize(previous);
+  const b = tokenize(next);
+
+  let row = new Array<number>(b.length + 1).fill(0);
+  for (let i = 1; i <= a.length; i++) {
+    const nextRow = new Array<number>(b.length + 1).fill(0);
+    for (let j = 1; j <= b.length; j++) {
+      nextRow[j] = a[i - 1] === b[j - 1] ? row[j - 1] + 1 : Math.max(row[j], nextRow[j - 1]);
+    }
+    row = nextRow;
+  }
+  const common = row[b.length];
+  return a.length - common + (b.length - common);
+};
+
+// A step's own durationInFrames wins over durationSeconds; steps with neither get the
+// auto-derived or default length. No step is shorter than the transition into it.
+export const resolveStepDurations = (
+  steps: StepTiming[],
+  { fps, auto, transitionDuration }: { fps: number; auto: boolean; transitionDuration: number },
+): number[] =>
+  steps.map((step, index) => {
+    let frames = DEFAULT_STEP_DURATION;
+    if (step.durationInFrames !== undefined) {
+      frames = step.durationInFrames;
+    } else if (step.durationSeconds !== undefined) {
+      frames = step.durationSeconds * fps;
+    } else if (auto) {
+      const changed = countChangedTokens(steps[index - 1]?.code, step.code);
+      frames = Math.min(AUTO_BASE_SECONDS + changed * AUTO_SECONDS_PER_TOKEN, AUTO_MAX_SECONDS) * fps;
+    }
+    return Math.max(Math.round(frames), transitionDuration, 1);
+  });
+
+// Longest transition every step still has room for once the steps are fitted to totalFrames.
+// Unchanged when totalFrames is too short to fit the steps at all.
+export const fitTransitionDuration = (transitionDuration: number, stepCount: number, totalFrames: number): number =>
+  totalFrames < stepCount ? transitionDuration : Math.min(transitionDuration, Math.floor(totalFrames / stepCount));
+
+// Scale durations proportionally so they add up to totalFrames, keeping whole frames and at least
+// minFrames per step. Durations come back unchanged when totalFrames can't give every step minFrames.
+export const fitStepDurations = (durations: number[], totalFrames: number, minFrames = 1): number[] => {
+  const total = durations.reduce((sum, frames) => sum + frames, 0);
+  const min = Math.max(1, minFrames);
+  if (durations.length === 0 || total === totalFrames || totalFrames < durations.length * min) return durations;
+
+  // Rounding the running end of each step keeps the sum exact; each step leaves min frames for every later one
+  let elapsed = 0;
+  let previousEnd = 0;
+  return durations.map((frames, index) => {
+    elapsed += frames;
+    const end = Math.round((elapsed / total) * totalFrames);
+    const available = totalFrames - previousEnd - (durations.length - 1 - index) * min;
+    const fitted = index === durations.length - 1 ? available : Math.min(Math.max(min, end - previousEnd), available);
+    previousEnd += fitted;
+    return fitted;
+  });
+};
@@ -0,0 +1,115 @@
+import { staticFile } from "remotion";
+import { createTwoslashFromCDN, TwoslashCdnReturn } from "twoslash-cdn";
+import { CompilerOptions } from "typescript";
+
+// Written by scripts/cache-twoslash-types.ts from node_modules
+const TYPES_DIR = "twoslash-types";
+
+type TypesIndex = {
+  typescript: string;
+  packages: Record<string, { version: string; files: string[] }>;
+};
+
+// twoslash-cdn asks for lib files, npm versions, file trees and typings by URL;
+// these are the URLs the local cache can answer
+const LIB_URL = /^https:\/\/playgroundcdn\.typescriptlang\.org\/cdn\/[^/]+\/typescript\/lib\/([^/]+)$/;
+const RESOLVE_URL = /^https:\/\/data\.jsdelivr\.com\/v1\/package\/resolve\/npm\/((?:@[^/]+\/)?[^@/]+)@[^/]+$/;
+const VERSIONS_URL = /^https:\/\/data\.jsdelivr\.com\/v1\/package\/npm\/((?:@[^/]+\/)?[^@/]+)$/;
+const TREE_URL = /^https:\/\/data\.jsdelivr\.com\/v1\/package\/npm\/((?:@[^/]+\/)?[^@/]+)@[^/]+\/flat$/;
+const FILE_URL = /^https:\/\/cdn\.jsdelivr\.net\/npm\/((?:@[^/]+\/)?[^@/]+)@[^/]+(\/.+)$/;
+
+// Missing-module errors only mean the package isn't in the cache, not that the snippet is wrong
+const CANNOT_FIND_MODULE = [2307, 7016];
+
+// Opt in with REMOTION_TWOSLASH_CDN=1 (.env in the Studio; the render server passes its own on)
+const isCdnEnabled = () => {
+  const value = typeof process === "undefined" ? undefined : process.env.REMOTION_TWOSLASH_CDN;
+  return value === "1" || value === "true";
+};
+
+const jsonResponse = (body: unknown) =>
+  new Response(JSON.stringify(body), { headers: { "Content-Type": "application/json" } });
+
+const fetchCached = async (file: string): Promise<Response | null> => {
+  const response = await fetch(staticFile(`${TYPES_DIR}/${file}`));
+  return response.ok ? response : null;
+};
+
+const loadIndex = async (): Promise<TypesIndex | null> => {
+  try {
+    const response = await fetchCached("index.json");
+    return response ? ((await response.json()) as TypesIndex) : null;
+  } catch {
+    return null;
+  }
+};
+
+// Answer a twoslash-cdn request from the cache, or null if the cache doesn't have it
+const resolveFromCache = async (url: string, index: TypesIndex): Promise<Response | null> => {
+  const lib = LIB_URL.exec(url);
+  if (lib) return fetchCached(`typescript/lib/${lib[1]}`);
+
+  const [, name, file] = RESOLVE_URL.exec(url) ?? VERSIONS_URL.exec(url) ?? TREE_URL.exec(url) ?? FILE_URL.exec(url) ?? [];
+  const cached = name ? index.packages[name] : undefined;
+  if (!cached) return null;
+
+  if (RESOLVE_URL.test(url)) return jsonResponse({ version: cached.version });
+  if (VERSIONS_URL.test(url)) return jsonResponse({ tags: { latest: cached.version }, versions: [cached.version] });
+  if (TREE_URL.test(url)) return jsonResponse({ files: cached.files.map((cachedFile) => ({ name: cachedFile })) });
+  if (file === "/package.json" || cached.files.includes(file)) return fetchCached(`npm/${name}${file}`);
+  return null;
+};
+
+const createCacheFetcher = (index: TypesIndex, allowCdn: boolean): typeof fetch =>
+  async (input, init) => {
+    const url = typeof input === "string" ? input : input instanceof URL ? input.href : input.url;
+    const cached = await resolveFromCache(url, index);
+    if (cached) return cached;
+    return allowCdn ? fetch(input, init) : new Response("", { status: 404 });
+  };
+
+type TwoslashRun = TwoslashCdnReturn["run"];
+
+const loadBackend = async (compilerOptions: CompilerOptions): Promise<TwoslashRun | null> => {
+  const index = await loadIndex();
+  const allowCdn = isCdnEnabled();
+  if (!index) {
+    if (allowCdn) return createTwoslashFromCDN({ compilerOptions }).run;
+    console.warn(
+      `No twoslash typings in public/${TYPES_DIR}: run "npm run twoslash:cache" for type callouts, or set REMOTION_TWOSLASH_CDN=1`,
+    );
+    return null;
+  }
+
+  const twoslash = createTwoslashFromCDN({ compilerOptions, fetcher: createCacheFetcher(index, allowCdn) });
+  if (allowCdn) return twoslash.run;
+
+  // Expected by twoslash (which otherwise throws on them), then dropped from the result
+  return async (code, extension, options) => {
+    const result = await twoslash.run(code, extension, {
+      ...options,
+      handbookOptions: {
+        ...options?.handbookOptions,
+        errors: [...(options?.handbookOptions?.errors ?? []), ...CANNOT_FIND_MODULE],
+      },
+    });
+    const missing = result.errors.filter((error) => typeof error.code === "number" && CANNOT_FIND_MODULE.includes(error.code));
+    if (missing.length > 0) {
+      console.warn(`Twoslash typings not cached for: ${missing.map((error) => error.text).join("; ")}`);
+    }
+    return { ...result, errors: result.errors.filter((error) => !missing.includes(error)) };
+  };
+};
+
+// Twoslash backed by the local typings cache, with the CDN only as an opt-in fallback.
+// run resolves to null (no callouts or errors) when there is neither.
+export const createLocalTwoslash = (compilerOptions: CompilerOptions) => {
+  let backend: Promise<TwoslashRun | null> | undefined;
+  return {
+    run: async (...args: Parameters<TwoslashRun>) => {
+      backend ??= loadBackend(compilerOptions);
+      const run = await backend;
+      return run ? run(...args) : null;
+    },
+  };
+};
@@ -0,0 +1,602 @@
+// Composition metadata without the React components, so the render server and
+// scripts can read ids, schemas and defaults without loading the component tree.
+// compositionRegistry.ts attaches the components to these entries.
+import { z } from "zod";
+import { zColor } from "@remotion/zod-types";
+import type { Caption } from "@remotion/captions";
+import type { Shot } from "./MasterSequenceComp";
+import { toEmphasisRegExp } from "./caption-utils/emphasis";
+
+// Import transcript data
+import transcriptData from "../public/transcript.json";
+
+// How a shot enters from the previous one; ignored on the first shot
+export const shotTransitionSchema = z.object({
+    type: z.enum(["none", "fade", "slide", "wipe", "flip", "clockWipe"]).describe("Transition presentation ('none' for a hard cut)"),
+    direction: z.enum(["from-left", "from-right", "from-top", "from-bottom"]).optional().describe("Direction for slide, wipe and flip (default: from-left)"),
+    durationInFrames: z.number().int().positive().optional().describe("Transition length in frames (default: 15)"),
+    timing: z.enum(["spring", "linear"]).optional().describe("Timing curve (default: spring)"),
+    sound: z.object({
+        src: z.string().describe("File in public/ (e.g. 'sfx/whoosh.wav') or an http(s) URL"),
+        volume: z.number().min(0).max(1).optional().describe("Volume from 0 to 1 (default: 1)"),
+    }).optional().describe("Sound played as the transition starts"),
+});
+
+export type ShotTransition = z.infer<typeof shotTransitionSchema>;
+
+// An audio file played under the shots
+export const audioTrackSchema = z.object({
+    src: z.string().describe("File in public/ (e.g. 'p2.mp3') or an http(s) URL"),
+    offsetSeconds: z.number().min(0).optional().describe("When the track starts in the video (default: 0)"),
+    durationSeconds: z.number().positive().optional().describe("How long the track plays (default: until the video ends)"),
+    volume: z.number().min(0).max(1).optional().describe("Volume from 0 to 1 (default: 1)"),
+    loop: z.boolean().optional().describe("Repeat the file until the track ends (default: false)"),
+    fadeInSeconds: z.number().min(0).optional().describe("Fade in at the start of the track (default: 0)"),
+    fadeOutSeconds: z.number().min(0).optional().describe("Fade out at the end of the track (default: 0)"),
+});
+
+export type AudioTrack = z.infer<typeof audioTrackSchema>;
+
+// Background music, lowered while the narration plays unless ducking is false
+export const musicTrackSchema = audioTrackSchema.extend({
+    ducking: z.union([
+        z.literal(false),
+        z.object({
+            volume: z.number().min(0).max(1).optional().describe("Share of the music volume kept under narration (default: 0.25)"),
+            fadeSeconds: z.number().min(0).optional().describe("Ramp into and out of the duck (default: 0.5)"),
+        }),
+    ]).optional(),
+});
+
+export type MusicTrack = z.infer<typeof musicTrackSchema>;
+
+// A sound effect or clip played inside one shot, e.g. "sfx/whoosh.wav"
+export const shotAudioSchema = z.object({
+    src: z.string().describe("File in public/ (e.g. 'sfx/click.wav') or an http(s) URL"),
+    offsetInFrames: z.number().int().min(0).optional().describe("Frames into the shot before the clip starts (default: 0)"),
+    volume: z.number().min(0).max(1).optional().describe("Volume from 0 to 1 (default: 1)"),
+    trimBeforeInFrames: z.number().int().min(0).optional().describe("Frames cut from the start of the file"),
+    trimAfterInFrames: z.number().int().positive().optional().describe("Frame of the file where playback stops"),
+});
+
+export type ShotAudio = z.infer<typeof shotAudioSchema>;
+
+// Caption styles rendered by Captions0
+export const captionStyleSchema = z.enum(["highlight", "bounce", "karaoke", "tiktok"]);
+
+// Google Fonts Captions0 can load; caption-utils/font.ts imports each of them
+export const captionFontFamilySchema = z.enum([
+    "Poppins", "Inter", "Roboto", "Montserrat", "Open Sans", "Lato", "Oswald", "Bebas Neue", "Anton",
+]);
+
+export type CaptionFontFamily = z.infer<typeof captionFontFamilySchema>;
+
+// Look and paging of Captions0 text; every field falls back to the style's own default
+export const captionAppearanceSchema = z.object({
+    fontFamily: captionFontFamilySchema.optional().describe("Google Font family (default: Poppins for tiktok, sans-serif otherwise)"),
+    fontSize: z.number().positive().optional().describe("Font size in px (default: 72; tiktok fits the width up to 120)"),
+    fontWeight: z.number().int().min(100).max(900).optional().describe("Font weight (default: 700; tiktok 900)"),
+    textColor: zColor().optional().describe("Color of words not being spoken (default: white)"),
+    activeColor: zColor().optional().describe("Color of the spoken word (default depends on the style)"),
+    strokeWidth: z.number().min(0).optional().describe("Text outline width in px (default: 3; tiktok 14)"),
+    strokeColor: zColor().optional().describe("Text outline color (default: black)"),
+    background: z.object({
+        color: zColor().describe("Pill color"),
+        paddingX: z.number().min(0).optional().describe("Horizontal padding in px (default: 32)"),
+        paddingY: z.number().min(0).optional().describe("Vertical padding in px (default: 12)"),
+        borderRadius: z.number().min(0).optional().describe("Corner radius in px (default: 24)"),
+    }).optional().describe("Pill drawn behind the caption text"),
+    position: z.enum(["top", "center", "bottom"]).optional().describe("Vertical placement (default: bottom; tiktok center)"),
+    safeAreaOffset: z.number().min(0).optional().describe("Distance in px from the top or bottom edge (default: 128)"),
+    maxWidth: z.number().positive().max(100).optional().describe("Max text width in % of the frame (default: 80; tiktok 85)"),
+    entrance: z.enum(["pop", "slide-up", "fade", "none"]).optional().describe("How each page appears and leaves (default: fade; pop for bounce and tiktok, slide-up for karaoke)"),
+    pagination: z.enum(["time", "width"]).optional().describe("'time' groups words spoken within 1.2s (one word per page for tiktok); 'width' fills up to maxLines lines of the frame width (default: time)"),
+    maxLines: z.number().int().positive().optional().describe("Lines per page with width pagination (default: 2)"),
+    maxPageDurationMs: z.number().positive().optional().describe("Longest a page may stay up with width pagination (default: 3000)"),
+});
+
+export type CaptionAppearance = z.infer<typeof captionAppearanceSchema>;
+
+// Words Captions0 emphasizes, picked by text pattern or caption index
+export const captionEmphasisSchema = z.object({
+    words: z.array(z.string()).superRefine((words, ctx) => {
+        words.forEach((word, index) => {
+            try {
+                toEmphasisRegExp(word);
+            } catch (error) {
+                ctx.addIssue({ code: z.ZodIssueCode.custom, path: [index], message: (error as Error).message });
+            }
+        });
+    }).optional().describe("Words to match, case-insensitive and ignoring punctuation; '/regex/flags' for a pattern, e.g. '/^\\d/'"),
+    indices: z.array(z.number().int().min(0)).optional().describe("Positions in the captions (or overlay word) list"),
+    effect: z.enum(["color", "scale", "underline", "shake"]).describe("How the word stands out"),
+    color: zColor().optional().describe("Color for the color and underline effects (default: the style's active color)"),
+    emoji: z.string().optional().describe("Emoji that pops up beside the word when it is spoken"),
+});
+
+export type CaptionEmphasis = z.infer<typeof captionEmphasisSchema>;
+
+// How Captions0 shows one speaker's pages; words carry the speaker id the entries are keyed by
+export const captionSpeakerSchema = z.object({
+    name: z.string().optional().describe("Label shown above the speaker's captions"),
+    textColor: zColor().optional().describe("Replaces textColor on the speaker's pages"),
+    activeColor: zColor().optional().describe("Replaces activeColor on the speaker's pages"),
+});
+
+export type CaptionSpeaker = z.infer<typeof captionSpeakerSchema>;
+
+// Words the ASR was less sure of than this are worth a second look before the final render
+export const DEFAULT_CONFIDENCE_THRESHOLD = 0.6;
+
+// A caption word with the diarized speaker who said it, when the ASR output has one
+export type SpeakerCaption = Caption & { speaker?: string };
+
+// One entry of wordlevel-timestamp.json
+export const wordTimestampSchema = z.object({
+    word: z.string(),
+    start: z.number().min(0).describe("Seconds on the narration timeline"),
+    end: z.number().min(0).describe("Seconds on the narration timeline"),
+    speaker: z.string().optional().describe("Speaker id from diarized ASR output"),
+    confidence: z.number().min(0).max(1).optional().describe("ASR confidence, 0-1"),
+});
+
+export type WordTimestamp = z.infer<typeof wordTimestampSchema>;
+
+// Captions drawn over every MasterSequence shot, timed against the narration
+export const captionsOverlaySchema = z.object({
+    words: z.array(wordTimestampSchema).describe("Full word list of the narration (wordlevel-timestamp.json)"),
+    style: captionStyleSchema.describe("Caption display style"),
+    emphasis: z.array(captionEmphasisSchema).optional().describe("Words to emphasize; the first matching rule wins"),
+    speakers: z.record(z.string(), captionSpeakerSchema).optional().describe("Colors and name labels per speaker id"),
+    debugConfidence: z.boolean().optional().describe("Studio only: tint words whose confidence is below confidenceThreshold"),
+    confidenceThreshold: z.number().min(0).max(1).optional().describe(`Confidence below which debugConfidence tints a word (default ${DEFAULT_CONFIDENCE_THRESHOLD})`),
+}).merge(captionAppearanceSchema);
+
+export type CaptionsOverlay = z.infer<typeof captionsOverlaySchema>;
+
+// Word timestamps in seconds to the Caption[] Captions0 takes
+export const wordTimestampsToCaptions = (words: WordTimestamp[]): SpeakerCaption[] =>
+    words.map((w) => ({
+        text: w.word,
+        startMs: Math.round(w.start * 1000),
+        endMs: Math.round(w.end * 1000),
+        timestampMs: Math.round(((w.start + w.end) / 2) * 1000),
+        confidence: w.confidence ?? null,
+        ...(w.speaker !== undefined ? { speaker: w.speaker } : {}),
+    }));
+
+// Shape of transcript.json as produced by the shot-list LLM
+export const transcriptSchema = z.object({
+    audio: z.union([z.string(), audioTrackSchema]).optional().describe("Narration the shot times refer to: a path/URL or a full track"),
+    shots: z.array(z.object({
+        sentence: z.string().optional(),
+        start_time: z.number().min(0).describe("Shot start in seconds on the narration timeline"),
+        end_time: z.number().min(0).describe("Shot end in seconds on the narration timeline"),
+        notes: z.string().optional(),
+        compositionId: z.string().describe("Registry ID of the composition to show"),
+        compositionProps: z.record(z.any()).optional(),
+        transition: shotTransitionSchema.optional(),
+        audio: z.array(shotAudioSchema).optional().describe("Sound effects played during this shot"),
+        hideCaptions: z.boolean().optional().describe("Hide the captions overlay during this shot (default: true for Captions0 shots, else false)"),
+    }).passthrough()).min(1).describe("Shots in playback order"),
+});
+
+export type Transcript = z.infer<typeof transcriptSchema>;
+export type TranscriptShot = Transcript["shots"][number];
+
+// Frame rate MasterSequence renders at, and the one transcript seconds are converted with
+export const MASTER_SEQUENCE_FPS = 30;
+
+// Schema for MasterSequence: either converted shots or a raw transcript (the transcript wins when both are set)
+export const masterSequenceSchema = z.object({
+    shots: z.array(z.object({
+        compositionId: z.string(),
+        compositionProps: z.record(z.any()),
+        fromFrame: z.number().int().min(0).describe("Frame on the narration timeline where the shot starts"),
+        durationInFrames: z.number().int().positive(),
+        transition: shotTransitionSchema.optional(),
+        audio: z.array(shotAudioSchema).optional(),
+        hideCaptions: z.boolean().optional(),
+    })).optional().describe("Shots already converted to frames"),
+    transcript: transcriptSchema.optional().describe("Transcript document (same format as transcript.json), converted to shots in calculateMetadata"),
+    transitionSeed: z.union([z.string(), z.number()]).optional().describe("Seed for picking transitions of shots that don't specify one; the same seed always renders the same video"),
+    narration: audioTrackSchema.nullable().optional().describe("Narration track; replaced by the transcript's audio when the transcript names one"),
+    music: musicTrackSchema.nullable().optional().describe("Background music, ducked under the narration"),
+    captions: captionsOverlaySchema.nullable().optional().describe("Captions drawn over every shot, aligned to the narration"),
+});
+
+// Convert transcript data to shots format, with shot times in frames at the given fps
+export const convertTranscriptToShots = (transcript: Transcript, fps: number, useNextShotStartTimeForDuration: boolean = true): Shot[] => {
+    return transcript.shots.map((shot: TranscriptShot, index: number, shots: TranscriptShot[]) => {
+        const startTimeSeconds = shot.start_time;
+        let durationSeconds: number;
+
+        if (useNextShotStartTimeForDuration && index < shots.length - 1) {
+            // Use the next shot's start_time to calculate duration
+            const nextStartTime = shots[index + 1].start_time;
+            durationSeconds = nextStartTime - startTimeSeconds;
+
+        } else {
+            // Use the current shot's end_time to calculate duration
+            const endTimeSeconds = shot.end_time;
+            durationSeconds = endTimeSeconds - startTimeSeconds;
+        }
+        // add 2 seconds to the duration for the last shot
+        if (index === shots.length - 1) {
+            durationSeconds += 2;
+            // console.log("last shot, adding 2 seconds to the duration"); 
+        }
+
+        return {
+            compositionId: shot.compositionId,
+            compositionProps: shot.compositionProps || {},
+            fromFrame: Math.round(startTimeSeconds * fps),
+            durationInFrames: Math.round(durationSeconds * fps),
+            ...(shot.transition ? { transition: shot.transition } : {}),
+            ...(shot.audio ? { audio: shot.audio } : {}),
+            ...(shot.hideCaptions !== undefined ? { hideCaptions: shot.hideCaptions } : {}),
+        };
+    });
+};
+
+// Narration track named by a transcript, as a full track
+export const getTranscriptNarration = (transcript: Transcript): AudioTrack | null => {
+    if (!transcript.audio) return null;
+    return typeof transcript.audio === "string" ? { src: transcript.audio } : transcript.audio;
+};
+
+// Frames of narration each shot owns: from its fromFrame (0 for the first shot) up to the next shot's fromFrame.
+// Absolute fromFrames are used instead of the rounded durations, so per-shot rounding doesn't accumulate.
+export const getShotNarrationFrames = (shots: Shot[]): number[] =>
+    shots.map((shot, index) => {
+        const start = index === 0 ? 0 : shot.fromFrame;
+        const end = index < shots.length - 1
+            ? shots[index + 1].fromFrame
+            : shot.fromFrame + shot.durationInFrames;
+        return Math.max(1, end - start);
+    });
+
+// Total length of a MasterSequence playing these shots, ending with the last shot.
+// A transition adds its length to the outgoing shot and overlaps by the same amount, so it doesn't change the total.
+export const getShotsDurationInFrames = (shots: Shot[]): number =>
+    getShotNarrationFrames(shots).reduce((acc, frames) => acc + frames, 0);
+
+// Schema for TypewriterText component
+export const typewriterTextSchema = z.object({
+    text: z.string().describe("Text to display with typewriter effect"),
+    speed: z.number().optional().describe("Frames per character (default: 3)"),
+});
+
+// Schema for CodeTransition component
+export const codeTransitionSchema = z.object({
+    steps: z.array(z.object({
+        code: z.string().describe("Markdown-escaped code snippet"),
+        title: z.string().optional().describe("Optional title for the code step"),
+        durationInFrames: z.number().int().positive().optional().describe("Screen time of this step in frames"),
+        durationSeconds: z.number().positive().optional().describe("Screen time of this step in seconds (durationInFrames wins)"),
+    })).describe("Array of code steps with transitions"),
+    language: z.string().optional().describe("Programming language for all steps (auto-detected if not provided)"),
+    theme: z.enum(["github-dark", "github-light", "dracula", "monokai", "vs-dark"]).optional().describe("Code theme (default: github-dark)"),
+    transitionDuration: z.number().optional().describe("Duration of transition in frames (default: 30)"),
+    codeWidth: z.number().optional().describe("Width of code area in pixels (default: auto)"),
+    autoStepDuration: z.boolean().optional().describe("Steps without a duration get one from how many tokens they change (default: 90 frames each)"),
+    fitDurationInFrames: z.number().int().positive().optional().describe("Stretch all steps proportionally to fill this many frames; MasterSequence sets it to the shot's narration length"),
+});
+
+// Schema for VideoScreen component
+export const videoScreenSchema = z.object({
+    videoSource: z.string().optional().describe("Video source - can be local path or URL (defaults to Big_Buck_Bunny_360_10s_1MB.mp4)"),
+    titleText: z.string().optional().describe("Optional title text to display below the video"),
+    maxTime: z.number().optional().describe("Maximum time in seconds to play the video (optional)"),
+});
+
+// Schema for Captions0 component
+export const captions0Schema = z.object({
+    captions: z.array(z.object({
+        text: z.string(),
+        startMs: z.number(),
+        endMs: z.number(),
+        timestampMs: z.number(),
+        confidence: z.number().nullable(),
+        speaker: z.string().optional(),
+    })).describe("Word-level caption timestamps"),
+    style: captionStyleSchema.describe("Caption display style"),
+    emphasis: z.array(captionEmphasisSchema).optional().describe("Words to emphasize; the first matching rule wins"),
+    speakers: z.record(z.string(), captionSpeakerSchema).optional().describe("Colors and name labels per speaker id"),
+    debugConfidence: z.boolean().optional().describe("Studio only: tint words whose confidence is below confidenceThreshold"),
+    confidenceThreshold: z.number().min(0).max(1).optional().describe(`Confidence below which debugConfidence tints a word (default ${DEFAULT_CONFIDENCE_THRESHOLD})`),
+}).merge(captionAppearanceSchema);
+
+// Schema for TitleScreenStill and TitleScreenDotBg
+export const myCompSchema3 = z.object({
+    titleText: z.string(),
+    titleColor: zColor(),
+});
+
+// Schema for ImageScreen component
+export const imageScreenSchema = z.object({
+    titleText: z.string(),
+    imageSource: z.string().describe("Image source - can be local path, URL, or base64 data"),
+});
+
+// Schema for DynamicCards component
+export const dynamicCardsSchema = z.object({
+    titleText: z.string().describe("Main title for the component"),
+    titleColor: zColor().describe("Color of the main title"),
+    cards: z.array(z.object({
+        title: z.string()
+            .refine((title) => title.trim().split(/\s+/).length <= 4, "Card titles must be 4 words or less")
+            .describe("Card title (max 4 words)"),
+    })).min(1).max(6).describe("Array of card data (1-6 cards)"),
+});
+
+export type CompositionManifestEntry = {
+    id: string;
+    kind: "still" | "composition";
+    width: number;
+    height: number;
+    fps?: number;
+    durationInFrames?: number; // required for kind === "composition"
+    schema?: z.ZodTypeAny;
+    defaultProps?: Record<string, unknown>;
+};
+
+// Every composition and still by ID: size, timing, props schema and defaults
+export const compositionManifest: CompositionManifestEntry[] = [
+    {
+        id: "TitleScreenStill",
+        kind: "still",
+        width: 1920,
+        height: 1080,
+        schema: myCompSchema3,
+        defaultProps: {
+            titleText: "Title Screen",
+            titleColor: "#000000",
+        },
+    },
+    {
+        id: "ImageScreen",
+        kind: "still",
+        width: 1920,
+        height: 1080,
+        schema: imageScreenSchema,
+        defaultProps: {
+            titleText: "Image Screen",
+            imageSource:
+                "https://images.unsplash.com/photo-1488590528505-98d2b5aba04b?auto=format&fit=crop&q=80&w=2670",
+            comments: "available photos are you can pass direct local path like screenshot1.png \
+             if local image list is provided OR \n use image urls. \
+             \ don't use this composition if relevant image is not provided. In notes, describe the image you're using.",
+        },
+    },
+    {
+        id: "AvatarScreen",
+        kind: "still",
+        width: 1920,
+        height: 1080,
+        defaultProps: {
+            titleText: "Avatar Screen Left Alignment",
+            imageSource:
+                "avatars/avatar-hand-fold.png",
+            alignment: "center",
+            comments: "available photos are avatars/avatar-hand-fold.png and avatars/avatar-hand-thumbsup.png \
+            \n- Avatar Screen Right Alignment use left, center or right, \
+            \n text is not shown when alignment is center",
+        },
+
+    },
+    // {
+    //     id: "HelloWorld",
+    //     kind: "composition",
+    //     width: 1920,
+    //     height: 1080,
+    //     fps: 30,
+    //     durationInFrames: 150,
+    //     schema: myCompSchema,
+    //     defaultProps: {
+    //         titleText: "Welcome to Remotion",
+    //         titleColor: "#000000",
+    //         logoColor1: "#91EAE4",
+    //         logoColor2: "#86A8E7",
+    //     },
+    // },
+    // {
+    //     id: "OnlyLogo",
+    //     kind: "composition",
+    //     width: 1920,
+    //     height: 1080,
+    //     fps: 30,
+    //     durationInFrames: 150,
+    //     schema: myCompSchema2,
+    //     defaultProps: {
+    //         logoColor1: "#91dAE2",
+    //         logoColor2: "#86A8E7",
+    //     },
+    // },
+    {
+        id: "TypewriterText",
+        kind: "composition",
+        width: 1920,
+        height: 1080,
+        fps: 30,
+        durationInFrames: 120, // 4 seconds at 30fps
+        schema: typewriterTextSchema,
+        defaultProps: {
+            text: "Typewriter Effect",
+            speed: 3,
+        },
+    },
+    {
+        id: "MasterSequence",
+        kind: "composition",
+        width: 1920,
+        height: 1080,
+        fps: MASTER_SEQUENCE_FPS,
+        durationInFrames: getShotsDurationInFrames(convertTranscriptToShots(transcriptData, MASTER_SEQUENCE_FPS)), // Fallback only; calculateMetadata derives it from the incoming shots
+        schema: masterSequenceSchema,
+        defaultProps: {
+            shots: convertTranscriptToShots(transcriptData, MASTER_SEQUENCE_FPS),
+            narration: getTranscriptNarration(transcriptData),
+        },
+    },
+    {
+        id: "TitleScreenDotBg",
+        kind: "composition",
+        width: 1920,
+        height: 1080,
+        fps: 30,
+        durationInFrames: 120,
+        schema: myCompSchema3,
+        defaultProps: {
+            titleText: "Title with Animated Dots",
+            titleColor: "#000000"
+        }
+    },
+    {
+        id: "TextScreen",
+        kind: "still",
+        width: 1920,
+        height: 1080,
+        // schema: myCompSchema3,
+        defaultProps: {
+            titleText: "",
+            markdownText: "This is a start of a markdown pragraph or a bullet list. \n- Item 1 \n-  Item 2 \n- Item 3",
+        },
+    },
+    {
+        id: "DynamicCards",
+        kind: "still",
+        width: 1920,
+        height: 1080,
+        schema: dynamicCardsSchema,
+        defaultProps: {
+            titleText: "Dynamic Card Layout",
+            titleColor: "#ffffff",
+            cards: [
+                { title: "Card One" },
+                { title: "Card Two" },
+                { title: "Card Three" },
+                { title: "Card Four" },
+                { title: "Card Five" },
+                { title: "Card Six" },
+            ],
+            comments: "Dynamic Cards, you can add 1 to 6 cards and the size dynamically. \
+            \n this can be used for a list of features or a list of benefits. or to just show a grid of titles or items.",
+        },
+    },
+    //     {
+    //         id: "CodeSnippet",
+    //         kind: "still",
+    //         width: 1920,
+    //         height: 1080,
+    //         // schema: myCompSchema3,
+    //         defaultProps: {
+    //             titleText: "Code Snippet",
+    //             code: `print("Hello, World!")
+    // def greet(name):
+    //     return f"Hello, {name}!"
+
+    // # This is a Python example
+    // result = greet("Developer")
+    // print(result)`
+    //         },
+    //     },
+    {
+        id: "CodeTransition",
+        kind: "composition",
+        width: 1920,
+        height: 1080,
+        fps: 30,
+        durationInFrames: 270, // 9 seconds for 3 steps with 90 frames each
+        schema: codeTransitionSchema,
+        defaultProps: {
+            title: "",
+            steps: [
+                {
+                    code: `def calculate_sum(a, b):\n    return a + b\n\nif __name__ == '__main__':\n    print(calculate_sum(5, 3))\n`,
+                    title: "Initial Function",
+                },
+                {
+                    code: `def calculate_sum(a, b):\n    # Add error handling for non-numeric input\n    if not (isinstance(a, (int, float)) and isinstance(b, (int, float))):\n        raise ValueError("Both arguments must be numbers")\n    return a + b\n\nif __name__ == '__main__':\n    print(calculate_sum(5, 3))\n    # print(calculate_sum("5", 3))  # Uncomment to see error handling`,
+                    title: "Add Error Handling",
+                },
+                {
+                    code: `def calculate_sum(a, b):\n    """Return the sum of two numbers after validating input."""\n    # Add error handling for non-numeric input\n    if not (isinstance(a, (int, float)) and isinstance(b, (int, float))):\n        raise ValueError("Both arguments must be numbers")\n    result = a + b\n    print(f"Adding {a} and {b}: {result}")\n    return result\n\nif __name__ == '__main__':\n    print(calculate_sum(5, 3))\n    try:\n        print(calculate_sum("5", 3))\n    except ValueError as e:\n        print(e)`,
+                    title: "Add Print and Docstring",
+                },
+            ],
+            language: "python",
+            theme: "github-dark",
+            transitionDuration: 30,
+            comment: "For CodeTransition composition, you can add add multiple steps of a coding concept you want to show and the code will transition between them. \
+            \n Always show step by step changes and add a title to each step. "
+        },
+    },
+    {
+        id: "CodeStill",
+        kind: "composition",
+        width: 1920,
+        height: 1080,
+        fps: 30,
+        durationInFrames: 120, // 9 seconds for 3 steps with 90 frames each
+        schema: codeTransitionSchema,
+        defaultProps: {
+            title: "",
+            steps: [
+                {
+                    code: `def calculate_sum(a, b): \n # TODO: Add error handling\n \nreturn a + b\n\nif __name__ == '__main__': \n    print(calculate_sum(5, 3))  \n     print(calculate_sum(5, 3))  \n     print(calculate_sum(5, 3))  \n     print(calculate_sum(5, 3))  \n `,
+
+                },
+
+            ],
+            language: "python",
+            theme: "github-dark",
+            transitionDuration: 30,
+        },
+    },
+    {
+        id: "VideoScreen",
+        kind: "composition",
+        width: 1920,
+        height: 1080,
+        fps: 30,
+        durationInFrames: 300, // 10 seconds default, can be overridden with maxTime
+        schema: videoScreenSchema,
+        defaultProps: {
+            videoSource: "videos/Big_Buck_Bunny_360_10s_1MB.mp4",
+            titleText: "",
+            maxTime: 10, // 10 seconds default
+            comments: "Video playback component. Pass videoSource as local path or URL. Defaults to Big_Buck_Bunny_360_10s_1MB.mp4 if not provided. Use maxTime to limit playback duration in seconds.",
+        },
+    },
+
+    {
+        id: "Captions0",
+        kind: "composition",
+        width: 1920,
+        height: 1080,
+        fps: 30,
+        durationInFrames: 150, // 5 seconds default preview
+        schema: captions0Schema,
+        defaultProps: {
+            captions: [
+                { text: "Hello ", startMs: 0, endMs: 500, timestampMs: 250, confidence: 1 },
+                { text: "world, ", startMs: 500, endMs: 1000, timestampMs: 750, confidence: 1 },
+                { text: "this ", startMs: 1000, endMs: 1300, timestampMs: 1150, confidence: 1 },
+                { text: "is ", startMs: 1300, endMs: 1500, timestampMs: 1400, confidence: 1 },
+                { text: "a ", startMs: 1500, endMs: 1700, timestampMs: 1600, confidence: 1 },
+                { text: "caption ", startMs: 1700, endMs: 2200, timestampMs: 1950, confidence: 1 },
+                { text: "test.", startMs: 2200, endMs: 2800, timestampMs: 2500, confidence: 1 },
+            ] as Caption[],
+            style: "highlight" as const,
+            comments: "Captions overlay composition. Receives word-level Caption[] timestamps and a style variant. \
+            \n Styles: highlight (green active word), bounce (scale up active word), karaoke (progressive fill). \
+            \n Used as an overlay in MasterSequence - the captions array is auto-populated from wordlevel-timestamp.json during preprocessing.",
+        },
+    },
+
+];
+
+export const compositionIdToManifestEntry = Object.fromEntries(
+    compositionManifest.map((e) => [e.id, e])
+) as Record<string, CompositionManifestEntry>;
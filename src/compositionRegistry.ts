@@ -1,382 +1,59 @@
 import { ComponentType } from "react";
-import { z } from "zod";
-import MasterSequenceComp, { Shot } from "./MasterSequenceComp";
+import MasterSequenceComp from "./MasterSequenceComp";
 import {
     TitleScreen as TitleScreenStill,
-    myCompSchema3,
     ImageScreen,
-    imageScreenSchema,
     AvatarScreen,
     TypewriterText,
     TitleScreenDotBg,
     TextScreen,
 } from "./3.still-test";
-import { DynamicCards, dynamicCardsSchema } from "./4.components-col";
+import { DynamicCards } from "./4.components-col";
 import { MainComposition } from "./CodeTransitionComposition";
 import { calculateMetadata } from "./code-utils/calculate-metadata";
 import { VideoScreen } from "./VideosInSequence";
 import { Captions0 } from "./Captions0";
-import type { Caption } from "@remotion/captions";
-
-// Import transcript data
-import transcriptData from "../public/transcript.json";
-
-// Convert transcript data to shots format
-const convertTranscriptToShots = (transcript: any, useNextShotStartTimeForDuration: boolean = true): Shot[] => {
-    const fps = 30; // Standard frame rate
-
-    return transcript.shots.map((shot: any, index: number, shots: any[]) => {
-        const startTimeSeconds = shot.start_time;
-        let durationSeconds: number;
-
-        if (useNextShotStartTimeForDuration && index < shots.length - 1) {
-            // Use the next shot's start_time to calculate duration
-            const nextStartTime = shots[index + 1].start_time;
-            durationSeconds = nextStartTime - startTimeSeconds;
-
-        } else {
-            // Use the current shot's end_time to calculate duration
-            const endTimeSeconds = shot.end_time;
-            durationSeconds = endTimeSeconds - startTimeSeconds;
-        }
-        // add 2 seconds to the duration for the last shot
-        if (index === shots.length - 1) {
-            durationSeconds += 2;
-            // console.log("last shot, adding 2 seconds to the duration"); 
-        }
-
-        return {
-            compositionId: shot.compositionId,
-            compositionProps: shot.compositionProps || {},
-            fromFrame: Math.round(startTimeSeconds * fps),
-            durationInFrames: Math.round(durationSeconds * fps),
-        };
-    });
-};
-
-// Schema for TypewriterText component
-export const typewriterTextSchema = z.object({
-    text: z.string().describe("Text to display with typewriter effect"),
-    speed: z.number().optional().describe("Frames per character (default: 3)"),
-});
-
-// Schema for CodeTransition component
-export const codeTransitionSchema = z.object({
-    steps: z.array(z.object({
-        code: z.string().describe("Markdown-escaped code snippet"),
-        title: z.string().optional().describe("Optional title for the code step"),
-    })).describe("Array of code steps with transitions"),
-    language: z.string().optional().describe("Programming language for all steps (auto-detected if not provided)"),
-    theme: z.enum(["github-dark", "github-light", "dracula", "monokai", "vs-dark"]).optional().describe("Code theme (default: github-dark)"),
-    transitionDuration: z.number().optional().describe("Duration of transition in frames (default: 30)"),
-    codeWidth: z.number().optional().describe("Width of code area in pixels (default: auto)"),
-});
-
-// Schema for VideoScreen component
-export const videoScreenSchema = z.object({
-    videoSource: z.string().optional().describe("Video source - can be local path or URL (defaults to Big_Buck_Bunny_360_10s_1MB.mp4)"),
-    titleText: z.string().optional().describe("Optional title text to display below the video"),
-    maxTime: z.number().optional().describe("Maximum time in seconds to play the video (optional)"),
-});
-
-// Schema for Captions0 component
-export const captions0Schema = z.object({
-    captions: z.array(z.object({
-        text: z.string(),
-        startMs: z.number(),
-        endMs: z.number(),
-        timestampMs: z.number(),
-        confidence: z.number().nullable(),
-    })).describe("Word-level caption timestamps"),
-    style: z.enum(["highlight", "bounce", "karaoke", "tiktok"]).describe("Caption display style"),
-});
-
-export type RegistryEntry = {
-    id: string;
-    kind: "still" | "composition";
+import { calculateMasterSequenceMetadata } from "./masterSequenceMetadata";
+import { compositionManifest, CompositionManifestEntry } from "./compositionManifest";
+
+// Schemas and defaults live in compositionManifest.ts; re-exported for existing imports
+export {
+    typewriterTextSchema,
+    codeTransitionSchema,
+    videoScreenSchema,
+    captions0Schema,
+} from "./compositionManifest";
+
+export type RegistryEntry = CompositionManifestEntry & {
     component: ComponentType<any>;
-    width: number;
-    height: number;
-    fps?: number;
-    durationInFrames?: number; // required for kind === "composition"
-    schema?: z.ZodTypeAny;
-    defaultProps?: Record<string, unknown>;
     calculateMetadata?: any; // Optional for compositions that need metadata calculation
 };
 
-// Central registry of all compositions and stills by ID
-export const compositionRegistry: RegistryEntry[] = [
-    {
-        id: "TitleScreenStill",
-        kind: "still",
-        component: TitleScreenStill,
-        width: 1920,
-        height: 1080,
-        schema: myCompSchema3,
-        defaultProps: {
-            titleText: "Title Screen",
-            titleColor: "#000000",
-        },
-    },
-    {
-        id: "ImageScreen",
-        kind: "still",
-        component: ImageScreen,
-        width: 1920,
-        height: 1080,
-        schema: imageScreenSchema,
-        defaultProps: {
-            titleText: "Image Screen",
-            imageSource:
-                "https://images.unsplash.com/photo-1488590528505-98d2b5aba04b?auto=format&fit=crop&q=80&w=2670",
-            comments: "available photos are you can pass direct local path like screenshot1.png \
-             if local image list is provided OR \n use image urls. \
-             \ don't use this composition if relevant image is not provided. In notes, describe the image you're using.",
-        },
-    },
-    {
-        id: "AvatarScreen",
-        kind: "still",
-        component: AvatarScreen,
-        width: 1920,
-        height: 1080,
-        defaultProps: {
-            titleText: "Avatar Screen Left Alignment",
-            imageSource:
-                "avatars/avatar-hand-fold.png",
-            alignment: "center",
-            comments: "available photos are avatars/avatar-hand-fold.png and avatars/avatar-hand-thumbsup.png \
-            \n- Avatar Screen Right Alignment use left, center or right, \
-            \n text is not shown when alignment is center",
-        },
-
-    },
-    // {
-    //     id: "HelloWorld",
-    //     kind: "composition",
-    //     component: HelloWorld,
-    //     width: 1920,
-    //     height: 1080,
-    //     fps: 30,
-    //     durationInFrames: 150,
-    //     schema: myCompSchema,
-    //     defaultProps: {
-    //         titleText: "Welcome to Remotion",
-    //         titleColor: "#000000",
-    //         logoColor1: "#91EAE4",
-    //         logoColor2: "#86A8E7",
-    //     },
-    // },
-    // {
-    //     id: "OnlyLogo",
-    //     kind: "composition",
-    //     component: Logo,
-    //     width: 1920,
-    //     height: 1080,
-    //     fps: 30,
-    //     durationInFrames: 150,
-    //     schema: myCompSchema2,
-    //     defaultProps: {
-    //         logoColor1: "#91dAE2",
-    //         logoColor2: "#86A8E7",
-    //     },
-    // },
-    {
-        id: "TypewriterText",
-        kind: "composition",
-        component: TypewriterText,
-        width: 1920,
-        height: 1080,
-        fps: 30,
-        durationInFrames: 120, // 4 seconds at 30fps
-        schema: typewriterTextSchema,
-        defaultProps: {
-            text: "Typewriter Effect",
-            speed: 3,
-        },
-    },
-    {
-        id: "MasterSequence",
-        kind: "composition",
-        component: MasterSequenceComp,
-        width: 1920,
-        height: 1080,
-        fps: 30,
-        durationInFrames: convertTranscriptToShots(transcriptData).reduce((acc, shot) => acc + shot.durationInFrames, 0), // Total duration from transcript (72.68s * 30fps)
-        defaultProps: {
-            shots: convertTranscriptToShots(transcriptData),
-        },
-    },
-    {
-        id: "TitleScreenDotBg",
-        kind: "composition",
-        component: TitleScreenDotBg,
-        width: 1920,
-        height: 1080,
-        fps: 30,
-        durationInFrames: 120,
-        schema: myCompSchema3,
-        defaultProps: {
-            titleText: "Title with Animated Dots",
-            titleColor: "#000000"
-        }
-    },
-    {
-        id: "TextScreen",
-        kind: "still",
-        component: TextScreen,
-        width: 1920,
-        height: 1080,
-        // schema: myCompSchema3,
-        defaultProps: {
-            titleText: "",
-            markdownText: "This is a start of a markdown pragraph or a bullet list. \n- Item 1 \n-  Item 2 \n- Item 3",
-        },
-    },
-    {
-        id: "DynamicCards",
-        kind: "still",
-        component: DynamicCards,
-        width: 1920,
-        height: 1080,
-        schema: dynamicCardsSchema,
-        defaultProps: {
-            titleText: "Dynamic Card Layout",
-            titleColor: "#ffffff",
-            cards: [
-                { title: "Card One" },
-                { title: "Card Two" },
-                { title: "Card Three" },
-                { title: "Card Four" },
-                { title: "Card Five" },
-                { title: "Card Six" },
-            ],
-            comments: "Dynamic Cards, you can add 1 to 6 cards and the size dynamically. \
-            \n this can be used for a list of features or a list of benefits. or to just show a grid of titles or items.",
-        },
-    },
-    //     {
-    //         id: "CodeSnippet",
-    //         kind: "still",
-    //         component: CodeSnippet,
-    //         width: 1920,
-    //         height: 1080,
-    //         // schema: myCompSchema3,
-    //         defaultProps: {
-    //             titleText: "Code Snippet",
-    //             code: `print("Hello, World!")
-    // def greet(name):
-    //     return f"Hello, {name}!"
-
-    // # This is a Python example
-    // result = greet("Developer")
-    // print(result)`
-    //         },
-    //     },
-    {
-        id: "CodeTransition",
-        kind: "composition",
-        component: MainComposition,
-        width: 1920,
-        height: 1080,
-        fps: 30,
-        durationInFrames: 270, // 9 seconds for 3 steps with 90 frames each
-        schema: codeTransitionSchema,
-        calculateMetadata: calculateMetadata,
-        defaultProps: {
-            title: "",
-            steps: [
-                {
-                    code: `def calculate_sum(a, b):\n    return a + b\n\nif __name__ == '__main__':\n    print(calculate_sum(5, 3))\n`,
-                    title: "Initial Function",
-                },
-                {
-                    code: `def calculate_sum(a, b):\n    # Add error handling for non-numeric input\n    if not (isinstance(a, (int, float)) and isinstance(b, (int, float))):\n        raise ValueError("Both arguments must be numbers")\n    return a + b\n\nif __name__ == '__main__':\n    print(calculate_sum(5, 3))\n    # print(calculate_sum("5", 3))  # Uncomment to see error handling`,
-                    title: "Add Error Handling",
-                },
-                {
-                    code: `def calculate_sum(a, b):\n    """Return the sum of two numbers after validating input."""\n    # Add error handling for non-numeric input\n    if not (isinstance(a, (int, float)) and isinstance(b, (int, float))):\n        raise ValueError("Both arguments must be numbers")\n    result = a + b\n    print(f"Adding {a} and {b}: {result}")\n    return result\n\nif __name__ == '__main__':\n    print(calculate_sum(5, 3))\n    try:\n        print(calculate_sum("5", 3))\n    except ValueError as e:\n        print(e)`,
-                    title: "Add Print and Docstring",
-                },
-            ],
-            language: "python",
-            theme: "github-dark",
-            transitionDuration: 30,
-            comment: "For CodeTransition composition, you can add add multiple steps of a coding concept you want to show and the code will transition between them. \
-            \n Always show step by step changes and add a title to each step. "
-        },
-    },
-    {
-        id: "CodeStill",
-        kind: "composition",
-        component: MainComposition,
-        width: 1920,
-        height: 1080,
-        fps: 30,
-        durationInFrames: 120, // 9 seconds for 3 steps with 90 frames each
-        schema: codeTransitionSchema,
-        calculateMetadata: calculateMetadata,
-        defaultProps: {
-            title: "",
-            steps: [
-                {
-                    code: `def calculate_sum(a, b): \n # TODO: Add error handling\n \nreturn a + b\n\nif __name__ == '__main__': \n    print(calculate_sum(5, 3))  \n     print(calculate_sum(5, 3))  \n     print(calculate_sum(5, 3))  \n     print(calculate_sum(5, 3))  \n `,
-
-                },
-
-            ],
-            language: "python",
-            theme: "github-dark",
-            transitionDuration: 30,
-        },
-    },
-    {
-        id: "VideoScreen",
-        kind: "composition",
-        component: VideoScreen,
-        width: 1920,
-        height: 1080,
-        fps: 30,
-        durationInFrames: 300, // 10 seconds default, can be overridden with maxTime
-        schema: videoScreenSchema,
-        defaultProps: {
-            videoSource: "videos/Big_Buck_Bunny_360_10s_1MB.mp4",
-            titleText: "",
-            maxTime: 10, // 10 seconds default
-            comments: "Video playback component. Pass videoSource as local path or URL. Defaults to Big_Buck_Bunny_360_10s_1MB.mp4 if not provided. Use maxTime to limit playback duration in seconds.",
-        },
-    },
-
-    {
-        id: "Captions0",
-        kind: "composition",
-        component: Captions0,
-        width: 1920,
-        height: 1080,
-        fps: 30,
-        durationInFrames: 150, // 5 seconds default preview
-        schema: captions0Schema,
-        defaultProps: {
-            captions: [
-                { text: "Hello ", startMs: 0, endMs: 500, timestampMs: 250, confidence: 1 },
-                { text: "world, ", startMs: 500, endMs: 1000, timestampMs: 750, confidence: 1 },
-                { text: "this ", startMs: 1000, endMs: 1300, timestampMs: 1150, confidence: 1 },
-                { text: "is ", startMs: 1300, endMs: 1500, timestampMs: 1400, confidence: 1 },
-                { text: "a ", startMs: 1500, endMs: 1700, timestampMs: 1600, confidence: 1 },
-                { text: "caption ", startMs: 1700, endMs: 2200, timestampMs: 1950, confidence: 1 },
-                { text: "test.", startMs: 2200, endMs: 2800, timestampMs: 2500, confidence: 1 },
-            ] as Caption[],
-            style: "highlight" as const,
-            comments: "Captions overlay composition. Receives word-level Caption[] timestamps and a style variant. \
-            \n Styles: highlight (green active word), bounce (scale up active word), karaoke (progressive fill). \
-            \n Used as an overlay in MasterSequence - the captions array is auto-populated from wordlevel-timestamp.json during preprocessing.",
-        },
-    },
+// React components (and metadata functions) for each manifest entry by ID
+const components: Record<string, Pick<RegistryEntry, "component" | "calculateMetadata">> = {
+    TitleScreenStill: { component: TitleScreenStill },
+    ImageScreen: { component: ImageScreen },
+    AvatarScreen: { component: AvatarScreen },
+    // HelloWorld: { component: HelloWorld },
+    // OnlyLogo: { component: Logo },
+    TypewriterText: { component: TypewriterText },
+    MasterSequence: { component: MasterSequenceComp, calculateMetadata: calculateMasterSequenceMetadata },
+    TitleScreenDotBg: { component: TitleScreenDotBg },
+    TextScreen: { component: TextScreen },
+    DynamicCards: { component: DynamicCards },
+    // CodeSnippet: { component: CodeSnippet },
+    CodeTransition: { component: MainComposition, calculateMetadata: calculateMetadata },
+    CodeStill: { component: MainComposition, calculateMetadata: calculateMetadata },
+    VideoScreen: { component: VideoScreen },
+    Captions0: { component: Captions0 },
+};
 
-];
+// Central registry of all compositions and stills by ID
+export const compositionRegistry: RegistryEntry[] = compositionManifest.map((entry) => ({
+    ...entry,
+    ...components[entry.id],
+}));
 
 export const compositionIdToEntry = Object.fromEntries(
     compositionRegistry.map((e) => [e.id, e])
 ) as Record<string, RegistryEntry>;
-
-
@@ -0,0 +1,19 @@
+import { CalculateMetadataFunction } from "remotion";
+import { convertTranscriptToShots, getTranscriptNarration, MASTER_SEQUENCE_FPS } from "./compositionManifest";
+import { computeMasterSequenceTimeline } from "./masterSequenceTimeline";
+import type { MasterSequenceProps } from "./MasterSequenceComp";
+
+// Derive MasterSequence's length from the shots it receives, so inputProps from the
+// server or the Studio aren't cut off or padded to the bundled transcript's length.
+export const calculateMasterSequenceMetadata: CalculateMetadataFunction<MasterSequenceProps> = ({ props }) => {
+    const shots = props.transcript
+        ? convertTranscriptToShots(props.transcript, MASTER_SEQUENCE_FPS)
+        : props.shots ?? [];
+    // The transcript and its audio travel together, so its audio replaces the narration prop
+    const narration = (props.transcript && getTranscriptNarration(props.transcript)) || props.narration;
+
+    return {
+        durationInFrames: Math.max(1, computeMasterSequenceTimeline(shots, props.transitionSeed).durationInFrames),
+        props: { ...props, shots, narration },
+    };
+};
@@ -0,0 +1,67 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { getShotsDurationInFrames } from "./compositionManifest";
+import type { Shot } from "./MasterSequenceComp";
+import { computeMasterSequenceTimeline } from "./masterSequenceTimeline";
+
+const shot = (fromFrame: number, durationInFrames: number, transition?: Shot["transition"]): Shot => ({
+    compositionId: "TextScreen",
+    compositionProps: {},
+    fromFrame,
+    durationInFrames,
+    transition: transition ?? { type: "none" },
+});
+
+describe("computeMasterSequenceTimeline", () => {
+    it("gives each shot the frames up to the next shot's fromFrame", () => {
+        const shots = [shot(12, 48), shot(60, 30), shot(90, 45)];
+        const { entries } = computeMasterSequenceTimeline(shots);
+
+        assert.deepEqual(entries.map((entry) => entry.startFrame), [0, 60, 90]);
+        assert.deepEqual(entries.map((entry) => entry.durationInFrames), [60, 30, 45]);
+        assert.deepEqual(entries.map((entry) => entry.transition), [null, null, null]);
+    });
+
+    it("extends the outgoing shot by the next shot's transition", () => {
+        const shots = [shot(0, 60), shot(60, 60, { type: "fade", durationInFrames: 20 })];
+        const { entries } = computeMasterSequenceTimeline(shots);
+
+        assert.equal(entries[0].durationInFrames, 80);
+        assert.equal(entries[0].endFrame, 80);
+        assert.equal(entries[1].startFrame, 60);
+        assert.equal(entries[1].transition?.durationInFrames, 20);
+    });
+
+    it("caps a transition at one frame less than the shot it brings in", () => {
+        const shots = [shot(0, 30), shot(30, 10, { type: "slide", durationInFrames: 25 }), shot(40, 30)];
+        const { entries } = computeMasterSequenceTimeline(shots);
+
+        assert.equal(entries[1].transition?.durationInFrames, 9);
+        assert.equal(entries[0].durationInFrames, 39);
+    });
+
+    it("drops a transition into a one-frame shot", () => {
+        const shots = [shot(0, 30), shot(30, 1, { type: "wipe" }), shot(31, 30)];
+        const { entries } = computeMasterSequenceTimeline(shots);
+
+        assert.equal(entries[1].transition, null);
+        assert.equal(entries[0].durationInFrames, 30);
+    });
+
+    it("matches getShotsDurationInFrames, whatever the transitions", () => {
+        const shots = [
+            shot(5, 40),
+            shot(45, 33, { type: "fade", durationInFrames: 15 }),
+            shot(78, 8, { type: "slide", durationInFrames: 30 }),
+            shot(86, 61, { type: "wipe", durationInFrames: 12 }),
+        ];
+        const timeline = computeMasterSequenceTimeline(shots);
+
+        assert.equal(timeline.durationInFrames, getShotsDurationInFrames(shots));
+        assert.equal(timeline.durationInFrames, 147);
+    });
+
+    it("is empty without shots", () => {
+        assert.deepEqual(computeMasterSequenceTimeline([]), { entries: [], durationInFrames: 0 });
+    });
+});
@@ -0,0 +1,61 @@
+import { getShotNarrationFrames } from "./compositionManifest";
+import type { Shot } from "./MasterSequenceComp";
+import { resolveShotTransitions, ResolvedTransition } from "./masterSequenceTransitions";
+
+export type TimelineEntry = {
+    index: number;
+    compositionId: string;
+    // Frame where the shot starts entering; equals its transcript fromFrame (0 for the first shot)
+    startFrame: number;
+    // Exclusive; includes the overlap with the next shot's incoming transition
+    endFrame: number;
+    // Length of the shot's TransitionSeries.Sequence (endFrame - startFrame)
+    durationInFrames: number;
+    // Transition into this shot, shortened if the shot is too short for it
+    transition: ResolvedTransition | null;
+};
+
+export type MasterSequenceTimeline = {
+    entries: TimelineEntry[];
+    durationInFrames: number;
+};
+
+// Lay the shots out on the narration timeline. Positions come from each shot's absolute
+// fromFrame rather than summed durations, so rounding and transition overlap never drift:
+// a shot is extended by the next shot's transition, and that transition overlaps it by the
+// same amount, which puts every following shot's start back on its own fromFrame.
+export const computeMasterSequenceTimeline = (
+    shots: Shot[],
+    transitionSeed?: string | number,
+): MasterSequenceTimeline => {
+    const resolved = resolveShotTransitions(shots, transitionSeed);
+    const ownFrames = getShotNarrationFrames(shots);
+
+    // A transition can't outlast the shot it brings in
+    const transitions = resolved.map((transition, i) => {
+        if (!transition) return null;
+        const durationInFrames = Math.min(transition.durationInFrames, ownFrames[i] - 1);
+        return durationInFrames > 0 ? { ...transition, durationInFrames } : null;
+    });
+
+    let startFrame = 0;
+    const entries = shots.map((shot, i): TimelineEntry => {
+        const nextTransitionFrames = transitions[i + 1]?.durationInFrames ?? 0;
+        const durationInFrames = ownFrames[i] + nextTransitionFrames;
+        const entry = {
+            index: i,
+            compositionId: shot.compositionId,
+            startFrame,
+            endFrame: startFrame + durationInFrames,
+            durationInFrames,
+            transition: transitions[i],
+        };
+        startFrame += ownFrames[i];
+        return entry;
+    });
+
+    return {
+        entries,
+        durationInFrames: entries.length > 0 ? entries[entries.length - 1].endFrame : 0,
+    };
+};
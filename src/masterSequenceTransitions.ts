@@ -0,0 +1,48 @@
+import { random } from "remotion";
+import type { ShotTransition } from "./compositionManifest";
+import type { Shot } from "./MasterSequenceComp";
+
+export const DEFAULT_TRANSITION_DURATION = 15;
+export const DEFAULT_TRANSITION_SEED = "master-sequence";
+
+// A transition with every option filled in
+export type ResolvedTransition = {
+    type: Exclude<ShotTransition["type"], "none">;
+    direction: NonNullable<ShotTransition["direction"]>;
+    durationInFrames: number;
+    timing: NonNullable<ShotTransition["timing"]>;
+    sound?: ShotTransition["sound"];
+};
+
+// Presentations picked by the seeded default policy
+const DEFAULT_POLICY_TYPES: ResolvedTransition["type"][] = ["slide", "wipe", "fade"];
+
+// Seeded stand-in for the old Math.random() policy: half the cuts get a slide, wipe or fade.
+// random(seed) returns the same value in every render tab, so every frame agrees on the layout.
+const pickDefaultTransition = (index: number, seed: string | number): ShotTransition => {
+    if (random(`${seed}-transition-${index}`) <= 0.5) {
+        return { type: "none" };
+    }
+    const typeIndex = Math.floor(random(`${seed}-transition-type-${index}`) * DEFAULT_POLICY_TYPES.length);
+    return { type: DEFAULT_POLICY_TYPES[typeIndex] };
+};
+
+// Transition into each shot (index 0 is always null), from the shot's own spec or the seeded default
+export const resolveShotTransitions = (
+    shots: Shot[],
+    seed: string | number = DEFAULT_TRANSITION_SEED,
+): (ResolvedTransition | null)[] =>
+    shots.map((shot, index) => {
+        if (index === 0) return null;
+
+        const spec = shot.transition ?? pickDefaultTransition(index, seed);
+        if (spec.type === "none") return null;
+
+        return {
+            type: spec.type,
+            direction: spec.direction ?? "from-left",
+            durationInFrames: spec.durationInFrames ?? DEFAULT_TRANSITION_DURATION,
+            timing: spec.timing ?? "spring",
+            ...(spec.sound ? { sound: spec.sound } : {}),
+        };
+    });
@@ -0,0 +1,70 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { paginateCaptionsByTime } from "./caption-utils/paginate";
+import { captionsToCues, cuesToSrt, cuesToVtt } from "./subtitles";
+
+const caption = (text: string, startMs: number, endMs: number, speaker?: string) => ({
+    text,
+    startMs,
+    endMs,
+    timestampMs: (startMs + endMs) / 2,
+    confidence: null,
+    ...(speaker ? { speaker } : {}),
+});
+
+const words = [
+    caption("Hello ", 0, 400),
+    caption("there. ", 400, 1300),
+    caption("General ", 2000, 2400),
+    caption("Kenobi! ", 2400, 3100),
+];
+
+describe("captionsToCues", () => {
+    it("makes one cue per Captions0 time page", () => {
+        const cues = captionsToCues(words);
+
+        assert.deepEqual(cues, [
+            { startMs: 0, endMs: 1300, text: "Hello there." },
+            { startMs: 2000, endMs: 3100, text: "General Kenobi!" },
+        ]);
+        assert.deepEqual(cues.map((cue) => cue.text), paginateCaptionsByTime(words, 1200).map((page) => page.text));
+    });
+
+    it("ends a cue where the next one starts when they overlap", () => {
+        const cues = captionsToCues([caption("One ", 0, 1500), caption("two ", 1400, 1600)], 100);
+
+        assert.deepEqual(cues, [
+            { startMs: 0, endMs: 1400, text: "One" },
+            { startMs: 1400, endMs: 1600, text: "two" },
+        ]);
+    });
+
+    it("never mixes speakers in a cue", () => {
+        const cues = captionsToCues([caption("Hi", 0, 200, "A"), caption("Hello", 200, 400, "B")]);
+
+        assert.deepEqual(cues.map((cue) => cue.text), ["Hi", "Hello"]);
+    });
+});
+
+describe("cuesToSrt", () => {
+    it("numbers cues and writes HH:MM:SS,mmm timestamps", () => {
+        const srt = cuesToSrt([
+            { startMs: 0, endMs: 1300, text: "Hello there." },
+            { startMs: 3723004, endMs: 3725000.6, text: "Later" },
+        ]);
+
+        assert.equal(srt, "1\n00:00:00,000 --> 00:00:01,300\nHello there.\n\n2\n01:02:03,004 --> 01:02:05,001\nLater\n");
+    });
+});
+
+describe("cuesToVtt", () => {
+    it("starts with the WEBVTT header and uses a dot before milliseconds", () => {
+        const vtt = cuesToVtt([{ startMs: 61500, endMs: 62000, text: "Hi" }]);
+
+        assert.equal(vtt, "WEBVTT\n\n00:01:01.500 --> 00:01:02.000\nHi\n");
+    });
+
+    it("clamps negative times to zero", () => {
+        assert.match(cuesToVtt([{ startMs: -20, endMs: 10, text: "Hi" }]), /00:00:00\.000 --> 00:00:00\.010/);
+    });
+});
@@ -0,0 +1,102 @@
+// SRT / WebVTT export for word-level captions. Words are grouped into cues with the same
+// paginateCaptionsByTime Captions0 uses for its default time pagination, so those pages and cues match.
+import type { Caption } from "@remotion/captions";
+import { wordTimestampsToCaptions } from "./compositionManifest";
+import { paginateCaptionsByTime } from "./caption-utils/paginate";
+import type { Shot } from "./MasterSequenceComp";
+
+// Same window Captions0 uses to combine words into a page
+export const DEFAULT_SUBTITLE_COMBINE_MS = 1200;
+
+export type SubtitleFormat = "srt" | "vtt";
+
+export type SubtitleCue = {
+    startMs: number;
+    endMs: number;
+    text: string;
+};
+
+// One cue per caption page; a cue runs until the next one starts or its last word ends
+export const captionsToCues = (
+    captions: Caption[],
+    combineTokensWithinMilliseconds = DEFAULT_SUBTITLE_COMBINE_MS,
+): SubtitleCue[] => {
+    const pages = paginateCaptionsByTime(captions, combineTokensWithinMilliseconds);
+
+    return pages
+        .map((page, index) => {
+            const lastToken = page.tokens[page.tokens.length - 1];
+            const pageEndMs = lastToken ? lastToken.toMs : page.startMs + page.durationMs;
+            const nextPage = pages[index + 1];
+            return {
+                startMs: page.startMs,
+                endMs: nextPage ? Math.min(pageEndMs, nextPage.startMs) : pageEndMs,
+                text: page.text.trim(),
+            };
+        })
+        .filter((cue) => cue.text !== "" && cue.endMs > cue.startMs);
+};
+
+const formatTimestamp = (ms: number, separator: "," | ".") => {
+    const total = Math.max(0, Math.round(ms));
+    const hours = Math.floor(total / 3600000);
+    const minutes = Math.floor((total % 3600000) / 60000);
+    const seconds = Math.floor((total % 60000) / 1000);
+    const pad = (value: number, length = 2) => String(value).padStart(length, "0");
+    return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}${separator}${pad(total % 1000, 3)}`;
+};
+
+export const cuesToSrt = (cues: SubtitleCue[]): string =>
+    cues
+        .map((cue, index) => `${index + 1}\n${formatTimestamp(cue.startMs, ",")} --> ${formatTimestamp(cue.endMs, ",")}\n${cue.text}\n`)
+        .join("\n");
+
+export const cuesToVtt = (cues: SubtitleCue[]): string =>
+    ["WEBVTT\n", ...cues.map((cue) => `${formatTimestamp(cue.startMs, ".")} --> ${formatTimestamp(cue.endMs, ".")}\n${cue.text}\n`)]
+        .join("\n");
+
+export const captionsToSubtitles = (
+    captions: Caption[],
+    format: SubtitleFormat,
+    combineTokensWithinMilliseconds?: number,
+): string => {
+    const cues = captionsToCues(captions, combineTokensWithinMilliseconds);
+    return format === "srt" ? cuesToSrt(cues) : cuesToVtt(cues);
+};
+
+const shiftCaption = (caption: Caption, offsetMs: number): Caption => ({
+    ...caption,
+    startMs: Math.round(caption.startMs + offsetMs),
+    endMs: Math.round(caption.endMs + offsetMs),
+    timestampMs: caption.timestampMs === null ? null : Math.round(caption.timestampMs + offsetMs),
+});
+
+// Captions a composition shows, on the video's own timeline; null when it shows none
+export const getCompositionCaptions = (
+    compositionId: string,
+    props: Record<string, unknown>,
+    fps: number,
+): Caption[] | null => {
+    if (compositionId === "Captions0") {
+        return (props.captions as Caption[] | undefined) ?? null;
+    }
+
+    if (compositionId === "MasterSequence") {
+        // The overlay covers the whole narration, so it wins over individual caption shots
+        const overlay = props.captions as { words: { word: string; start: number; end: number }[] } | null | undefined;
+        if (overlay) {
+            const offsetMs = ((props.narration as { offsetSeconds?: number } | null | undefined)?.offsetSeconds ?? 0) * 1000;
+            return wordTimestampsToCaptions(overlay.words).map((caption) => shiftCaption(caption, offsetMs));
+        }
+
+        // Shot captions count from the shot's start (see preprocess-captions)
+        const shots = (props.shots as Shot[] | undefined) ?? [];
+        const captions = shots
+            .filter((shot) => shot.compositionId === "Captions0")
+            .flatMap((shot) => ((shot.compositionProps.captions as Caption[] | undefined) ?? [])
+                .map((caption) => shiftCaption(caption, (shot.fromFrame / fps) * 1000)));
+        return captions.length > 0 ? captions : null;
+    }
+
+    return null;
+};
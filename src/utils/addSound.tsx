@@ -0,0 +1,40 @@
+import { TransitionPresentation, TransitionPresentationComponentProps } from '@remotion/transitions';
+import { Audio, staticFile } from 'remotion';
+
+type SoundPresentationProps<T extends Record<string, unknown>> = {
+    presentation: TransitionPresentation<T>;
+    src: string;
+    volume: number;
+};
+
+// Defined once rather than per addSound() call: a presentation rebuilt on every frame then keeps
+// the same component type, so React doesn't remount the shots inside it.
+function SoundPresentation<T extends Record<string, unknown>>({
+    passedProps: { presentation, src, volume },
+    ...props
+}: TransitionPresentationComponentProps<SoundPresentationProps<T>>) {
+    const { component: Component, props: presentationProps } = presentation;
+    return (
+        <>
+            {props.presentationDirection === 'entering' ? <Audio src={src} volume={volume} /> : null}
+            <Component {...props} passedProps={presentationProps} />
+        </>
+    );
+}
+
+// Wrap a transition presentation so a sound plays on the entering side when the transition starts.
+// src is a file in public/ or an http(s) URL.
+export function addSound<T extends Record<string, unknown>>(
+    transition: TransitionPresentation<T>,
+    src: string,
+    volume = 1,
+): TransitionPresentation<SoundPresentationProps<T>> {
+    return {
+        component: SoundPresentation,
+        props: {
+            presentation: transition,
+            src: /^https?:\/\//.test(src) ? src : staticFile(src),
+            volume,
+        },
+    };
+}